@@ -0,0 +1,97 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {AssistantTask} from '../src/adaptiveAgent/config/systemInstructionsFactory';
+import {TurnContext} from '../src/adaptiveAgent/gemini/turnContext';
+
+/**
+ * A function call the model should make. Only the given arguments are
+ * checked; strings are compared ignoring case and surrounding spaces.
+ */
+export interface ExpectedCall {
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Where an eval case comes from.
+ * - 'example': An example query of a task in the system prompt.
+ * - 'paraphrase': The same request worded differently.
+ * - 'misrecognition': A request as speech recognition might mishear it.
+ */
+export type EvalCaseSource = 'example' | 'paraphrase' | 'misrecognition';
+
+export interface EvalCase {
+  utterance: string;
+  /**
+   * The calls the model should make in its first response, in order. Empty
+   * if it should answer without calling a tool.
+   */
+  expected: ExpectedCall[];
+  source: EvalCaseSource;
+  /** What the user sees, sent as the turn context. Defaults to the list. */
+  state?: TurnContext;
+}
+
+/**
+ * The Recipe Book as it first opens: all recipes listed, nothing changed.
+ */
+export const DEFAULT_EVAL_STATE: TurnContext = {
+  view: 'recipe list',
+  listedRecipeIds: Array.from({length: 18}, (_, i) => i + 1),
+  favoriteRecipeIds: [],
+  theme: 'light',
+  fontSizePx: 16,
+};
+
+/**
+ * Builds the dataset: one case for every example query of the tasks, in
+ * which only the tools called are checked, followed by the extra cases,
+ * which usually check the arguments as well. Extra cases replace examples
+ * with the same utterance.
+ * @param tasks The tasks of the system prompt.
+ * @param extraCases Paraphrases and misrecognitions, see eval/cases.json.
+ */
+export function buildDataset(
+  tasks: AssistantTask[],
+  extraCases: EvalCase[] = [],
+): EvalCase[] {
+  const extraUtterances = new Set(
+    extraCases.map((evalCase) => _normalize(evalCase.utterance)),
+  );
+  const seeded: EvalCase[] = tasks.flatMap((task) =>
+    (task.exampleQueries ?? [])
+      .filter((query) => !extraUtterances.has(_normalize(query)))
+      .map((query) => ({
+        utterance: query,
+        expected: (task.functionCallSequence ?? []).map((name) => ({name})),
+        source: 'example' as const,
+      })),
+  );
+  return [...seeded, ...extraCases];
+}
+
+/**
+ * Names a case's task by the tools it expects, e.g. 'view_recipe', or
+ * '(no tool)' for cases the model should answer directly.
+ */
+export function taskKey(calls: {name: string}[]): string {
+  return calls.length > 0
+    ? calls.map((call) => call.name).join(' + ')
+    : '(no tool)';
+}
+
+function _normalize(utterance: string): string {
+  return utterance.trim().toLowerCase();
+}
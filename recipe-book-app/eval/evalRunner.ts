@@ -0,0 +1,216 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {FunctionCall} from '@google/generative-ai';
+import {
+  LlmProviderFactory,
+  LlmProviderOptions,
+} from '../src/adaptiveAgent/gemini/llmProvider';
+import {addTurnContext} from '../src/adaptiveAgent/gemini/turnContext';
+import {
+  DEFAULT_EVAL_STATE,
+  EvalCase,
+  EvalCaseSource,
+  ExpectedCall,
+  taskKey,
+} from './dataset';
+
+/**
+ * How a case went.
+ */
+export interface CaseResult {
+  utterance: string;
+  source: EvalCaseSource;
+  /** The expected task, see taskKey(). */
+  task: string;
+  expected: ExpectedCall[];
+  /** The calls in the model's first response. */
+  actual: FunctionCall[];
+  /** Whether the model called the expected tools, in order. */
+  toolsCorrect: boolean;
+  /** Whether it also passed the expected arguments. */
+  passed: boolean;
+  /** Why the model couldn't be asked, if it couldn't. */
+  error?: string;
+}
+
+/**
+ * Tool selection scores of a task. Null where there is nothing to divide by.
+ */
+export interface TaskMetrics {
+  /** Cases expecting the task. */
+  cases: number;
+  /** Of the cases where the model chose the task, how many expected it. */
+  precision: number | null;
+  /** Of the cases expecting the task, how many the model chose it for. */
+  recall: number | null;
+  /** Of the cases where the task was rightly chosen, how many had the right arguments. */
+  argAccuracy: number | null;
+}
+
+export interface EvalSummary {
+  cases: number;
+  passed: number;
+  /** Cases with the right tools and arguments. */
+  accuracy: number;
+  /** Cases with the right tools. */
+  toolAccuracy: number;
+  /** Precision and recall averaged over the tasks. */
+  macroPrecision: number | null;
+  macroRecall: number | null;
+}
+
+export interface EvalReport {
+  version: number;
+  /** The backend's provider name, e.g. 'mock' or 'gemini'. */
+  backend: string;
+  createdAt: string;
+  summary: EvalSummary;
+  tasks: Record<string, TaskMetrics>;
+  results: CaseResult[];
+}
+
+export const EVAL_REPORT_VERSION = 1;
+
+/**
+ * Sends every case to a model, each in a new chat, and scores the function
+ * calls of its first response. The tools are not run.
+ * @param cases The dataset, see buildDataset().
+ * @param createProvider The model backend.
+ * @param options The system prompt and tool declarations of the agent.
+ */
+export async function runEval(
+  cases: EvalCase[],
+  createProvider: LlmProviderFactory,
+  options: LlmProviderOptions,
+): Promise<EvalReport> {
+  const provider = createProvider(options);
+  const results: CaseResult[] = [];
+  for (const evalCase of cases) {
+    let actual: FunctionCall[] = [];
+    let error: string | undefined;
+    try {
+      provider.startChat();
+      const message = addTurnContext(
+        evalCase.utterance,
+        evalCase.state ?? DEFAULT_EVAL_STATE,
+      );
+      const result = await provider.sendMessage(message);
+      actual = (await result.response).functionCalls;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    results.push(_scoreCase(evalCase, actual, error));
+  }
+  return {
+    version: EVAL_REPORT_VERSION,
+    backend: provider.name,
+    createdAt: new Date().toISOString(),
+    ...scoreResults(results),
+    results,
+  };
+}
+
+/**
+ * Computes the per-task and overall scores.
+ */
+export function scoreResults(
+  results: CaseResult[],
+): Pick<EvalReport, 'summary' | 'tasks'> {
+  const tasks: Record<string, TaskMetrics> = {};
+  const taskNames = new Set(results.map((result) => result.task));
+  for (const task of [...taskNames].sort()) {
+    const expecting = results.filter((result) => result.task === task);
+    const choosing = results.filter(
+      (result) => !result.error && taskKey(result.actual) === task,
+    );
+    const correct = expecting.filter((result) => result.toolsCorrect);
+    tasks[task] = {
+      cases: expecting.length,
+      precision: _ratio(correct.length, choosing.length),
+      recall: _ratio(correct.length, expecting.length),
+      argAccuracy: _ratio(
+        correct.filter((result) => result.passed).length,
+        correct.length,
+      ),
+    };
+  }
+
+  const metrics = Object.values(tasks);
+  const passed = results.filter((result) => result.passed).length;
+  return {
+    summary: {
+      cases: results.length,
+      passed,
+      accuracy: _ratio(passed, results.length) ?? 0,
+      toolAccuracy:
+        _ratio(
+          results.filter((result) => result.toolsCorrect).length,
+          results.length,
+        ) ?? 0,
+      macroPrecision: _mean(metrics.map((metric) => metric.precision)),
+      macroRecall: _mean(metrics.map((metric) => metric.recall)),
+    },
+    tasks,
+  };
+}
+
+function _scoreCase(
+  evalCase: EvalCase,
+  actual: FunctionCall[],
+  error?: string,
+): CaseResult {
+  const toolsCorrect = !error && taskKey(actual) === taskKey(evalCase.expected);
+  return {
+    utterance: evalCase.utterance,
+    source: evalCase.source,
+    task: taskKey(evalCase.expected),
+    expected: evalCase.expected,
+    actual,
+    toolsCorrect,
+    passed:
+      toolsCorrect &&
+      evalCase.expected.every((call, i) =>
+        _argsMatch(call.args ?? {}, actual[i].args ?? {}),
+      ),
+    ...(error ? {error} : {}),
+  };
+}
+
+/**
+ * Checks the expected arguments; others the model passed are ignored.
+ */
+function _argsMatch(
+  expected: Record<string, unknown>,
+  actual: object,
+): boolean {
+  return Object.entries(expected).every(([name, value]) => {
+    const actualValue = (actual as Record<string, unknown>)[name];
+    if (typeof value === 'string' && typeof actualValue === 'string') {
+      return value.trim().toLowerCase() === actualValue.trim().toLowerCase();
+    }
+    return JSON.stringify(value) === JSON.stringify(actualValue);
+  });
+}
+
+function _ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function _mean(values: (number | null)[]): number | null {
+  const defined = values.filter((value): value is number => value !== null);
+  return defined.length > 0
+    ? defined.reduce((sum, value) => sum + value, 0) / defined.length
+    : null;
+}
@@ -0,0 +1,213 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {FunctionCall} from '@google/generative-ai';
+import {ExpectedCall} from './dataset';
+import {CaseResult, EvalReport, TaskMetrics} from './evalRunner';
+
+/**
+ * A change in a task's scores since the baseline. Deltas are null where
+ * either side has no score.
+ */
+export interface TaskChange {
+  task: string;
+  precisionDelta: number | null;
+  recallDelta: number | null;
+}
+
+/**
+ * How a report differs from the baseline.
+ */
+export interface EvalDiff {
+  baselineBackend: string;
+  baselineCreatedAt: string;
+  accuracyDelta: number;
+  /** Tasks whose precision or recall changed. */
+  tasks: TaskChange[];
+  /** Utterances that passed in the baseline and fail now. */
+  regressions: string[];
+  /** Utterances that failed in the baseline and pass now. */
+  fixes: string[];
+  /** Utterances only in the current dataset. */
+  added: string[];
+  /** Utterances only in the baseline. */
+  removed: string[];
+}
+
+/**
+ * Compares a report with an earlier one. Cases are matched by utterance.
+ */
+export function diffReports(
+  baseline: EvalReport,
+  current: EvalReport,
+): EvalDiff {
+  const baselineResults = _byUtterance(baseline.results);
+  const currentResults = _byUtterance(current.results);
+  const diff: EvalDiff = {
+    baselineBackend: baseline.backend,
+    baselineCreatedAt: baseline.createdAt,
+    accuracyDelta: current.summary.accuracy - baseline.summary.accuracy,
+    tasks: [],
+    regressions: [],
+    fixes: [],
+    added: [],
+    removed: [],
+  };
+
+  for (const [utterance, result] of currentResults) {
+    const before = baselineResults.get(utterance);
+    if (!before) {
+      diff.added.push(utterance);
+    } else if (before.passed && !result.passed) {
+      diff.regressions.push(utterance);
+    } else if (!before.passed && result.passed) {
+      diff.fixes.push(utterance);
+    }
+  }
+  for (const utterance of baselineResults.keys()) {
+    if (!currentResults.has(utterance)) {
+      diff.removed.push(utterance);
+    }
+  }
+
+  const tasks = new Set([
+    ...Object.keys(baseline.tasks),
+    ...Object.keys(current.tasks),
+  ]);
+  for (const task of [...tasks].sort()) {
+    const change: TaskChange = {
+      task,
+      precisionDelta: _delta(
+        baseline.tasks[task],
+        current.tasks[task],
+        'precision',
+      ),
+      recallDelta: _delta(baseline.tasks[task], current.tasks[task], 'recall'),
+    };
+    if (change.precisionDelta || change.recallDelta) {
+      diff.tasks.push(change);
+    }
+  }
+  return diff;
+}
+
+/**
+ * Describes a report, and optionally its diff against the baseline, for
+ * the console.
+ */
+export function formatSummary(report: EvalReport, diff?: EvalDiff): string {
+  const {summary} = report;
+  const lines = [
+    `Tool selection eval (${report.backend}): ${summary.passed}/${summary.cases} cases passed (${_percent(summary.accuracy)}), right tools in ${_percent(summary.toolAccuracy)}.`,
+    `Macro precision ${_percent(summary.macroPrecision)}, macro recall ${_percent(summary.macroRecall)}.`,
+    '',
+    _row('Task', 'Cases', 'Precision', 'Recall', 'Args'),
+  ];
+  for (const [task, metrics] of Object.entries(report.tasks)) {
+    lines.push(
+      _row(
+        task,
+        String(metrics.cases),
+        _percent(metrics.precision),
+        _percent(metrics.recall),
+        _percent(metrics.argAccuracy),
+      ),
+    );
+  }
+
+  const failed = report.results.filter((result) => !result.passed);
+  if (failed.length > 0) {
+    lines.push('', 'Failed:');
+    for (const result of failed) {
+      lines.push(
+        `  [${result.source}] "${result.utterance}": expected ${_formatCalls(result.expected)}, got ${result.error ? `an error: ${result.error}` : _formatCalls(result.actual)}`,
+      );
+    }
+  }
+
+  if (diff) {
+    lines.push(
+      '',
+      `Compared with the baseline (${diff.baselineBackend}, ${diff.baselineCreatedAt}): accuracy ${_signedPoints(diff.accuracyDelta)}.`,
+    );
+    if (diff.baselineBackend !== report.backend) {
+      lines.push(
+        `  Note: the baseline was made with another backend (${diff.baselineBackend}).`,
+      );
+    }
+    for (const change of diff.tasks) {
+      lines.push(
+        `  ${change.task}: precision ${_signedPoints(change.precisionDelta)}, recall ${_signedPoints(change.recallDelta)}`,
+      );
+    }
+    _listUtterances(lines, 'Newly failing', diff.regressions);
+    _listUtterances(lines, 'Newly passing', diff.fixes);
+    _listUtterances(lines, 'New cases', diff.added);
+    _listUtterances(lines, 'Removed cases', diff.removed);
+    if (
+      diff.tasks.length === 0 &&
+      diff.regressions.length === 0 &&
+      diff.fixes.length === 0
+    ) {
+      lines.push('  No changes in tool selection.');
+    }
+  }
+  return lines.join('\n');
+}
+
+function _byUtterance(results: CaseResult[]): Map<string, CaseResult> {
+  return new Map(results.map((result) => [result.utterance, result]));
+}
+
+function _delta(
+  before: TaskMetrics | undefined,
+  after: TaskMetrics | undefined,
+  metric: 'precision' | 'recall',
+): number | null {
+  const a = before?.[metric];
+  const b = after?.[metric];
+  return a == null || b == null ? null : b - a;
+}
+
+function _formatCalls(calls: (ExpectedCall | FunctionCall)[]): string {
+  if (calls.length === 0) return 'no tool';
+  return calls
+    .map(
+      (call) => `${call.name}(${call.args ? JSON.stringify(call.args) : ''})`,
+    )
+    .join(', ');
+}
+
+function _listUtterances(lines: string[], title: string, utterances: string[]) {
+  if (utterances.length > 0) {
+    lines.push(`  ${title}: ${utterances.map((u) => `"${u}"`).join(', ')}`);
+  }
+}
+
+function _row(...cells: string[]): string {
+  const [task, ...numbers] = cells;
+  return [task.padEnd(28), ...numbers.map((cell) => cell.padStart(9))].join(
+    ' ',
+  );
+}
+
+function _percent(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+function _signedPoints(delta: number | null): string {
+  if (delta === null) return 'n/a';
+  const points = (delta * 100).toFixed(1);
+  return delta > 0 ? `+${points} pts` : `${points} pts`;
+}
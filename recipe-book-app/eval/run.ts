@@ -0,0 +1,154 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Runs the tool selection eval against the agent's current system prompt and
+ * tool declarations:
+ *
+ *   npm run eval -- [options]
+ *
+ * Options:
+ *   --backend mock|gemini|relay  The model to ask. Defaults to mock, the
+ *                                offline script in config/mockScript.ts.
+ *   --model NAME                 The Gemini model, for gemini and relay.
+ *   --relay-url URL              The relay, for relay. Defaults to
+ *                                $AGENT_RELAY_URL.
+ *   --baseline PATH              The report to compare with. Defaults to
+ *                                eval/baseline.<backend>.json, so that
+ *                                each backend is compared with its own.
+ *   --out PATH                   Where to write the report. Defaults to
+ *                                eval/report.json.
+ *   --update-baseline            Save the report as the new baseline.
+ *
+ * The gemini backend reads the API key from $GEMINI_API_KEY. Exits with 1
+ * if cases that passed in the baseline fail now.
+ */
+
+import {existsSync, readFileSync, writeFileSync} from 'node:fs';
+import {fileURLToPath} from 'node:url';
+import {parseArgs} from 'node:util';
+import {JSDOM} from 'jsdom';
+import {LlmProviderFactory} from '../src/adaptiveAgent/gemini/llmProvider';
+import {EvalCase} from './dataset';
+import {EvalReport} from './evalRunner';
+
+const EVAL_DIR = fileURLToPath(new URL('.', import.meta.url));
+
+const {values: options} = parseArgs({
+  options: {
+    backend: {type: 'string', default: 'mock'},
+    model: {type: 'string'},
+    'relay-url': {type: 'string', default: process.env.AGENT_RELAY_URL},
+    baseline: {type: 'string'},
+    out: {type: 'string', default: `${EVAL_DIR}report.json`},
+    'update-baseline': {type: 'boolean', default: false},
+  },
+});
+const baselinePath =
+  options.baseline ?? `${EVAL_DIR}baseline.${options.backend}.json`;
+
+// The tools module reads the DOM and localStorage when it is imported
+const {window} = new JSDOM('', {url: 'http://localhost/'});
+Object.assign(globalThis, {
+  window,
+  document: window.document,
+  localStorage: window.localStorage,
+});
+
+const [
+  {getGeminiClientConfig, toolRegistry},
+  {buildDataset},
+  {runEval},
+  report,
+] = await Promise.all([
+  import('../src/adaptiveAgent/config/agentConfig'),
+  import('./dataset'),
+  import('./evalRunner'),
+  import('./report'),
+]);
+
+const config = getGeminiClientConfig(await _getBackend(options.backend!), {
+  // Registers the agent's own tools; they are declared but never run
+  agentControls: {
+    setListeningMode: () => '',
+    setPreference: () => '',
+    resetPreferences: () => '',
+    forgetConversation: () => '',
+  },
+});
+const extraCases: EvalCase[] = JSON.parse(
+  readFileSync(`${EVAL_DIR}cases.json`, 'utf8'),
+);
+const dataset = buildDataset(toolRegistry.getTasks(), extraCases);
+
+const result = await runEval(dataset, config.createProvider, {
+  systemInstruction: config.systemInstructionsFactory.createPrompt(),
+  functionDeclarations: toolRegistry.functionDeclarations,
+});
+
+const baseline: EvalReport | null = existsSync(baselinePath)
+  ? JSON.parse(readFileSync(baselinePath, 'utf8'))
+  : null;
+const diff = baseline ? report.diffReports(baseline, result) : undefined;
+console.log(report.formatSummary(result, diff));
+if (!baseline) {
+  console.log(
+    `\nNo baseline at ${baselinePath}; save one with --update-baseline.`,
+  );
+}
+
+writeFileSync(options.out!, `${JSON.stringify(result, null, 2)}\n`);
+console.log(`\nReport written to ${options.out}.`);
+if (options['update-baseline']) {
+  writeFileSync(baselinePath, `${JSON.stringify(result, null, 2)}\n`);
+  console.log(`Baseline updated: ${baselinePath}.`);
+} else if (diff && diff.regressions.length > 0) {
+  process.exitCode = 1;
+}
+
+async function _getBackend(backend: string): Promise<LlmProviderFactory> {
+  switch (backend) {
+    case 'mock': {
+      const [{MockProvider}, {recipeBookMockScript}] = await Promise.all([
+        import('../src/adaptiveAgent/gemini/mockProvider'),
+        import('../src/adaptiveAgent/config/mockScript'),
+      ]);
+      return () => new MockProvider({...recipeBookMockScript, chunkDelayMs: 0});
+    }
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new Error('Set GEMINI_API_KEY to use the gemini backend.');
+      }
+      const {GeminiProvider} =
+        await import('../src/adaptiveAgent/gemini/geminiProvider');
+      return (providerOptions) =>
+        new GeminiProvider(apiKey, providerOptions, options.model);
+    }
+    case 'relay': {
+      const relayUrl = options['relay-url'];
+      if (!relayUrl) {
+        throw new Error('Set --relay-url or AGENT_RELAY_URL to use the relay.');
+      }
+      const {RelayProvider} =
+        await import('../src/adaptiveAgent/gemini/relayProvider');
+      return (providerOptions) =>
+        new RelayProvider(relayUrl, providerOptions, options.model);
+    }
+    default:
+      throw new Error(
+        `Unknown backend "${backend}"; use mock, gemini or relay.`,
+      );
+  }
+}
@@ -0,0 +1,302 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * A small relay between the Adaptive Agent in the browser and the Gemini API.
+ * The API key stays on the server; the browser only talks to this relay.
+ *
+ * The relay is stateless: the client sends the chat history with every
+ * request, and the relay replays it into a fresh chat session.
+ *
+ * Usage:
+ *   npm run relay    (reads the variables below from .env)
+ *
+ * Environment variables:
+ *   GEMINI_API_KEY         Required. The Gemini API key.
+ *   PORT                   Port to listen on. Defaults to 8787.
+ *   RELAY_ALLOWED_ORIGINS  Comma-separated origins allowed by CORS.
+ *                          Defaults to none (same-origin or dev proxy only).
+ *   RELAY_ALLOWED_MODELS   Comma-separated model names clients may request.
+ *                          Defaults to gemini-2.5-flash.
+ *   RELAY_RATE_LIMIT       Chat requests per minute allowed per client
+ *                          address. 0 disables the limit. Defaults to 30.
+ *
+ * The relay listens on 127.0.0.1 only and must not be exposed beyond this
+ * machine: it forwards whatever system instruction, tools and history the
+ * client sends, so anyone who can reach it can use the API key for any
+ * prompt. The Origin checks only keep web pages from other origins, in the
+ * user's own browser, from calling it; other clients can send any Origin
+ * header.
+ */
+
+import http from 'node:http';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+const API_KEY = process.env.GEMINI_API_KEY;
+const PORT = Number(process.env.PORT) || 8787;
+const ALLOWED_ORIGINS = (process.env.RELAY_ALLOWED_ORIGINS || '')
+    .split(',').map(origin => origin.trim()).filter(Boolean);
+const ALLOWED_MODELS = (process.env.RELAY_ALLOWED_MODELS || 'gemini-2.5-flash')
+    .split(',').map(model => model.trim()).filter(Boolean);
+const RATE_LIMIT = Number(process.env.RELAY_RATE_LIMIT ?? 30);
+
+const CHAT_PATH = '/api/agent/chat';
+const MAX_BODY_BYTES = 1024 * 1024;
+const GENERATION_CONFIG = { temperature: 0.5 };
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+const HOST = '127.0.0.1';
+
+/**
+ * An error that is reported to the client with the given HTTP status.
+ */
+class RelayError extends Error {
+    constructor(status, message) {
+        super(message);
+        this.status = status;
+    }
+}
+
+/**
+ * Reads and parses the JSON request body, enforcing a size limit.
+ * @param {http.IncomingMessage} req
+ * @returns {Promise<object>}
+ */
+function readJsonBody(req) {
+    return new Promise((resolve, reject) => {
+        let size = 0;
+        const chunks = [];
+        req.on('data', chunk => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new RelayError(413, 'Request body too large.'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+            } catch (error) {
+                reject(new RelayError(400, 'Request body is not valid JSON.'));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+/**
+ * Checks the shape of a chat request and returns its fields.
+ * @param {object} body The parsed request body.
+ */
+function validateChatRequest(body) {
+    const { model, systemInstruction, tools, history, message, stream } = body || {};
+    const modelName = model || ALLOWED_MODELS[0];
+    if (!ALLOWED_MODELS.includes(modelName)) {
+        throw new RelayError(400, `Model "${modelName}" is not allowed.`);
+    }
+    if (systemInstruction !== undefined && typeof systemInstruction !== 'string') {
+        throw new RelayError(400, '"systemInstruction" must be a string.');
+    }
+    if (tools !== undefined && !Array.isArray(tools)) {
+        throw new RelayError(400, '"tools" must be an array of function declarations.');
+    }
+    if (history !== undefined && !Array.isArray(history)) {
+        throw new RelayError(400, '"history" must be an array of contents.');
+    }
+    if (typeof message !== 'string' && !Array.isArray(message)) {
+        throw new RelayError(400, '"message" must be a string or an array of parts.');
+    }
+    return {
+        modelName,
+        systemInstruction,
+        tools: tools || [],
+        history: history || [],
+        message,
+        stream: !!stream,
+    };
+}
+
+/**
+ * Converts an SDK response into the JSON sent to the client.
+ */
+function toRelayResponse(response) {
+    return {
+        text: response.text(),
+        functionCalls: response.functionCalls() || [],
+    };
+}
+
+/**
+ * Handles a chat request: replays the history and sends the new message.
+ */
+async function handleChat(req, res, genAI) {
+    const request = validateChatRequest(await readJsonBody(req));
+    const model = genAI.getGenerativeModel({
+        model: request.modelName,
+        systemInstruction: request.systemInstruction,
+        tools: request.tools.length ? [{ functionDeclarations: request.tools }] : undefined,
+        generationConfig: GENERATION_CONFIG,
+    });
+    const chat = model.startChat({ history: request.history });
+
+    if (!request.stream) {
+        const result = await chat.sendMessage(request.message);
+        sendJson(res, 200, toRelayResponse(result.response));
+        return;
+    }
+
+    // Stream the response as newline-delimited JSON, one line per chunk,
+    // followed by a final line with the aggregated response.
+    const result = await chat.sendMessageStream(request.message);
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    try {
+        for await (const chunk of result.stream) {
+            res.write(JSON.stringify({ chunk: toRelayResponse(chunk) }) + '\n');
+        }
+        const response = await result.response;
+        res.write(JSON.stringify({ done: true, response: toRelayResponse(response) }) + '\n');
+    } catch (error) {
+        console.error('Relay stream error:', error);
+        res.write(JSON.stringify({ error: describeError(error) }) + '\n');
+    }
+    res.end();
+}
+
+function describeError(error) {
+    return error instanceof Error ? error.message : String(error);
+}
+
+function sendJson(res, status, body) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Adds CORS headers for allowed origins.
+ * @returns {boolean} False if the request comes from a disallowed origin.
+ */
+function applyCors(req, res) {
+    const origin = req.headers.origin;
+    if (!origin) return true;
+    if (!ALLOWED_ORIGINS.includes(origin)) return false;
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    return true;
+}
+
+/**
+ * Counts the requests of each client in fixed windows.
+ * @param {number} limit Requests allowed per window; 0 for no limit.
+ * @param {number} windowMs The window length.
+ * @returns {(client: string) => number} Takes a request from the client's
+ *     allowance, returning 0 if it is allowed, or else the milliseconds
+ *     until it would be.
+ */
+function createRateLimiter(limit, windowMs) {
+    const windows = new Map();
+    return client => {
+        if (!limit) return 0;
+        const now = Date.now();
+        // Forget clients whose window has passed, so the map stays small
+        for (const [key, window] of windows) {
+            if (now - window.start >= windowMs) windows.delete(key);
+        }
+        const window = windows.get(client) || { start: now, count: 0 };
+        windows.set(client, window);
+        if (window.count >= limit) {
+            return window.start + windowMs - now;
+        }
+        window.count++;
+        return 0;
+    };
+}
+
+function isLoopback(address) {
+    return LOOPBACK_ADDRESSES.includes(address);
+}
+
+/**
+ * Creates the relay HTTP server.
+ * @param {string} apiKey The Gemini API key.
+ * @param {{rateLimit?: number}} [options] Requests per minute per client;
+ *     defaults to RELAY_RATE_LIMIT.
+ * @returns {http.Server}
+ */
+export function createRelayServer(apiKey, { rateLimit = RATE_LIMIT } = {}) {
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const takeRequest = createRateLimiter(rateLimit, RATE_LIMIT_WINDOW_MS);
+
+    return http.createServer(async (req, res) => {
+        const url = new URL(req.url, 'http://localhost');
+        const client = req.socket.remoteAddress || '';
+        if (!req.headers.origin && !isLoopback(client)) {
+            sendJson(res, 403, { error: 'Origin required.' });
+            return;
+        }
+        const isCrossOrigin = !!req.headers.origin && req.headers.origin !== `http://${req.headers.host}`;
+        if (isCrossOrigin && !applyCors(req, res)) {
+            sendJson(res, 403, { error: 'Origin not allowed.' });
+            return;
+        }
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204);
+            res.end();
+            return;
+        }
+        if (url.pathname !== CHAT_PATH) {
+            sendJson(res, 404, { error: 'Not found.' });
+            return;
+        }
+        if (req.method !== 'POST') {
+            sendJson(res, 405, { error: 'Method not allowed.' });
+            return;
+        }
+        const retryAfterMs = takeRequest(client);
+        if (retryAfterMs > 0) {
+            res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+            sendJson(res, 429, { error: 'Too many requests. Try again later.' });
+            return;
+        }
+
+        try {
+            await handleChat(req, res, genAI);
+        } catch (error) {
+            if (!(error instanceof RelayError)) {
+                console.error('Relay error:', error);
+            }
+            if (res.headersSent) {
+                res.end();
+                return;
+            }
+            // Pass the upstream status through (e.g. 429) so the client can react
+            const status = error instanceof RelayError ? error.status : (error.status || 502);
+            sendJson(res, status, { error: describeError(error) });
+        }
+    });
+}
+
+// Start the server when run directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+    if (!API_KEY) {
+        console.error('GEMINI_API_KEY is not set. Refusing to start the relay.');
+        process.exit(1);
+    }
+    createRelayServer(API_KEY).listen(PORT, HOST, () => {
+        console.log(`Agent relay listening on http://${HOST}:${PORT}${CHAT_PATH}`);
+    });
+}
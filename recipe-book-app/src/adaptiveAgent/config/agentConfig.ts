@@ -13,117 +13,228 @@
 // limitations under the License.
 
 import {FunctionDeclaration} from '@google/generative-ai';
+import {HistoryBudget} from '../gemini/historyCompaction';
+import {LlmProviderFactory} from '../gemini/llmProvider';
+import {TurnContextProvider} from '../gemini/turnContext';
+import {IntentMatcher} from '../services/intentMatcher';
+import {AgentConfigError, validateTasks} from './configValidation';
 import {
+  AssistantTask,
   SystemInstructionsFactory,
   SystemInstructionsFactoryConfig,
+  UserPreferences,
 } from './systemInstructionsFactory';
-import {functionDeclarations, handleToolCall} from './tools';
+import {
+  AgentControls,
+  agentLocalIntents,
+  agentToolNames,
+  createAgentTools,
+} from './agentTools';
+import {getRecipeBookState} from './appState';
+import {maskRecipeSlots, recipeBookLocalIntents} from './localIntents';
+import {ToolRegistry} from './toolRegistry';
+import {recipeBookTools} from './tools';
+
+/**
+ * How failed model calls are retried. Only transient failures (network,
+ * rate limit, server errors) are retried.
+ */
+export interface RetryConfig {
+  /** Retries after the first attempt. Defaults to 2. */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled for each further one. Defaults to 500 ms. */
+  initialDelayMs?: number;
+  /** Upper bound for the delay. Defaults to 8000 ms. */
+  maxDelayMs?: number;
+}
+
+/**
+ * What the client needs to know about a tool to run it safely.
+ */
+export interface ToolMetadata {
+  /**
+   * Whether the tool only reads state, without changing the UI. Read-only
+   * tools requested together may run in parallel; all others run one at a
+   * time, in the order the model requested them. Defaults to false.
+   */
+  readOnly?: boolean;
+  /**
+   * Confirmation policy: returns the question to ask the user before the
+   * call runs, e.g. "Remove Beef Tacos from favorites?", or null if this
+   * call needs no confirmation. Used only if the client has a
+   * `confirmToolCall` callback.
+   */
+  confirmation?: (args: unknown) => string | null;
+}
+
+/**
+ * A tool call that waits for the user to confirm it.
+ */
+export interface ToolConfirmationRequest {
+  name: string;
+  args: object;
+  /** The question from the tool's confirmation policy. */
+  question: string;
+}
+
+/**
+ * Asks the user to confirm a tool call.
+ * @param request The call and the question to ask.
+ * @param signal Aborted if the turn ends before the user answers.
+ * @returns True if the user agreed.
+ */
+export type ConfirmToolCall = (
+  request: ToolConfirmationRequest,
+  signal: AbortSignal,
+) => Promise<boolean>;
 
 export interface GeminiClientConfig {
   systemInstructionsFactory: SystemInstructionsFactory;
+  /**
+   * The tools. If this is a ToolRegistry, changes to it are picked up at the
+   * start of the next turn.
+   */
   toolsConfig: {
     functionDeclarations: FunctionDeclaration[];
     handleToolCall: (
       functionName: string,
-      args: any,
+      args: unknown,
     ) => Promise<string | object | null>;
+    /** Metadata by tool name. Tools without metadata use the defaults. */
+    toolMetadata?: Record<string, ToolMetadata>;
+  };
+  /** Creates the LLM backend once the system prompt has been built. */
+  createProvider: LlmProviderFactory;
+  /** Whether to use the streaming API and emit `responseChunk` events. */
+  streamResponses?: boolean;
+  /**
+   * Time without progress after which a turn is abandoned and `timeout` is
+   * emitted. 0 disables the timeout. Defaults to 30000 ms.
+   */
+  requestTimeoutMs?: number;
+  retry?: RetryConfig;
+  /**
+   * Function call rounds the model may request per user turn before it is
+   * stopped with a final message. Defaults to 5.
+   */
+  maxToolRounds?: number;
+  /**
+   * Asks the user to confirm calls that have a confirmation policy. A
+   * declined call is not run; the model is told that the user declined.
+   * Without it, such calls run without asking.
+   */
+  confirmToolCall?: ConfirmToolCall;
+  /**
+   * Snapshots the app's state at the start of each user turn. The snapshot
+   * is prepended to the user's message, so the model can resolve e.g. "this
+   * one" without calling a tool first.
+   */
+  turnContext?: {
+    provider: TurnContextProvider;
+    /** See addTurnContext. Defaults to 1000. */
+    maxChars?: number;
   };
-  apiKey: string;
-  modelName?: string;
+  /**
+   * When the history is compacted between turns: old tool results are cut
+   * and the oldest turns summarized once it exceeds the budget. Defaults to
+   * about 8000 tokens, keeping the last 3 turns in full.
+   */
+  historyBudget?: HistoryBudget;
+}
+
+/**
+ * How the app's state is sent to the model with each message.
+ */
+export interface TurnContextOptions {
+  /** Defaults to true. */
+  enabled?: boolean;
+  /** Defaults to the Recipe Book's view, visible recipes and settings. */
+  provider?: TurnContextProvider;
+  /**
+   * The most characters a snapshot may take up; long strings and lists are
+   * shortened to fit. Defaults to 1000.
+   */
+  maxChars?: number;
 }
 
+export interface GeminiClientConfigOptions {
+  /**
+   * The user's preferences for the system prompt, or a function returning
+   * them, which is called each time the prompt is rebuilt.
+   */
+  userPreferences?: UserPreferences | (() => UserPreferences);
+  /** Whether to use the streaming API. Defaults to true. */
+  streamResponses?: boolean;
+  /** See GeminiClientConfig.requestTimeoutMs. */
+  requestTimeoutMs?: number;
+  retry?: RetryConfig;
+  /** See GeminiClientConfig.maxToolRounds. */
+  maxToolRounds?: number;
+  /** See GeminiClientConfig.confirmToolCall. */
+  confirmToolCall?: ConfirmToolCall;
+  /**
+   * If provided, the agent tools (e.g. set_listening_mode) are registered;
+   * otherwise they are unregistered.
+   */
+  agentControls?: AgentControls;
+  /**
+   * Tasks in addition to those of the registered tools, e.g. ones that call
+   * several tools in turn.
+   */
+  tasks?: AssistantTask[];
+  /**
+   * Whether to throw an AgentConfigError if the tasks don't match the tools
+   * (see validateTasks). Otherwise the problems are logged as warnings in
+   * development builds, and again whenever the registered tools change.
+   * Defaults to false.
+   */
+  strictConfig?: boolean;
+  turnContext?: TurnContextOptions;
+  /** See GeminiClientConfig.historyBudget. */
+  historyBudget?: HistoryBudget;
+}
+
+/** Whether responses are streamed, unless the host app says otherwise. */
+export const DEFAULT_STREAM_RESPONSES = true;
+
+/**
+ * The tools the model may call. Host apps can register their own tools at
+ * any time; the agent picks them up from its next turn.
+ */
+export const toolRegistry = new ToolRegistry(recipeBookTools);
+
+// Checks the tasks of the latest config again when the tools change
+let checkTasksOnChange: (() => void) | null = null;
+
 export function getGeminiClientConfig(
-  apiKey: string,
-  userPreferences?: Record<string, string>,
-  modelName?: string,
+  createProvider: LlmProviderFactory,
+  {
+    userPreferences,
+    streamResponses = DEFAULT_STREAM_RESPONSES,
+    requestTimeoutMs,
+    retry,
+    maxToolRounds,
+    confirmToolCall,
+    agentControls,
+    tasks = [],
+    strictConfig = false,
+    turnContext = {},
+    historyBudget,
+  }: GeminiClientConfigOptions = {},
 ): GeminiClientConfig {
+  if (checkTasksOnChange) {
+    toolRegistry.off('change', checkTasksOnChange);
+  }
+  if (agentControls) {
+    toolRegistry.register(...createAgentTools(agentControls));
+  } else {
+    toolRegistry.unregister(...agentToolNames);
+  }
+
+  const sendTurnContext = turnContext.enabled ?? true;
   const agentConfig: SystemInstructionsFactoryConfig = {
     goal: "You are a helpful AI assistant integrated into a Recipe Book application. Your primary goal is to help users find, view, and manage recipes by interacting with the UI on their behalf. You can search for recipes, display recipe details, manage a list of favorites, and adjust UI settings like dark mode and font size. You also act as a user guide, explaining how to use the application's features. IMPORTANT: Always respond in plain text. Do not use markdown (like **bold** or *italics*), lists, or any other formatting, as the speech synthesizer can only read simple text and punctuation.",
-    tasks: [
-      {
-        description: 'Searches for recipes by a keyword or phrase.',
-        exampleQueries: [
-          'Find recipes with chicken',
-          'Search for pasta dishes',
-          'Show me some desserts',
-        ],
-        functionCallSequence: ['search_recipes'],
-      },
-      {
-        description:
-          "Lists the recipes currently visible on the screen to understand the context. This should be used before viewing a recipe if the user's query is ambiguous (e.g., 'open the first one').",
-        exampleQueries: [
-          'What recipes are shown right now?',
-          "What's on the screen?",
-          'List the current recipes',
-        ],
-        functionCallSequence: ['list_recipes'],
-      },
-      {
-        description: 'Displays the detailed view for a specific recipe.',
-        exampleQueries: [
-          'Show me how to make the Classic Pancakes',
-          'Open recipe ID 7',
-          "Let's look at the first one",
-        ],
-        functionCallSequence: ['view_recipe'],
-      },
-      {
-        description:
-          'Gets the details (like ingredients or country) for a specific recipe without navigating away from the current view. Useful for answering specific questions.',
-        exampleQueries: [
-          'What are the ingredients for the Guacamole?',
-          'Where is the Beef Tacos recipe from?',
-          'Tell me more about recipe 14',
-        ],
-        functionCallSequence: ['get_recipe_details'],
-      },
-      {
-        description: 'Adds or removes a recipe from the user’s favorites list.',
-        exampleQueries: [
-          'Add the pancake recipe to my favorites',
-          'Save this recipe',
-          'Remove the burger from my favorites',
-          'Unfavorite the pasta',
-        ],
-        functionCallSequence: ['mark_as_favorite'],
-      },
-      {
-        description: "Retrieves the user's list of saved favorite recipes.",
-        exampleQueries: [
-          "What's in my favorites?",
-          'Show me my saved recipes',
-          'List my favorites',
-        ],
-        functionCallSequence: ['list_favorites'],
-      },
-      {
-        description:
-          'Navigates from a recipe detail page back to the main list.',
-        exampleQueries: ['Go back to the list', 'Show all recipes again'],
-        functionCallSequence: ['go_back_to_list'],
-      },
-      {
-        description:
-          'Toggles the user interface between light and dark themes.',
-        exampleQueries: [
-          'Enable dark mode',
-          'Switch to light theme',
-          "It's too bright in here",
-        ],
-        functionCallSequence: ['set_dark_mode'],
-      },
-      {
-        description: 'Adjusts the font size of the application.',
-        exampleQueries: [
-          'Make the text bigger',
-          'Increase the font size a little',
-          'I can’t read this, make it 50% larger',
-          'Decrease the text size',
-        ],
-        functionCallSequence: ['set_font_size'],
-      },
-    ],
+    tasks: () => [...toolRegistry.getTasks(), ...tasks],
     userPreferences:
       userPreferences ||
       {
@@ -134,16 +245,69 @@ export function getGeminiClientConfig(
     // Application context can be dynamically populated if needed
     appContext: {
       appName: 'Recipe Book App',
+      ...(sendTurnContext
+        ? {
+            currentState:
+              "User messages start with a snapshot of what the user sees, as '[App state: ...]'. Use it to resolve references like 'this recipe' or 'the first one' instead of calling list_recipes.",
+          }
+        : {}),
     },
   };
 
+  _checkTasks([...toolRegistry.getTasks(), ...tasks], strictConfig);
+  // Tools registered later only get warnings, as throwing would fail the
+  // host app's register() call rather than the agent's start
+  checkTasksOnChange = () =>
+    _checkTasks([...toolRegistry.getTasks(), ...tasks], false);
+  toolRegistry.on('change', checkTasksOnChange);
+
   return {
     systemInstructionsFactory: new SystemInstructionsFactory(agentConfig),
-    toolsConfig: {
-      functionDeclarations,
-      handleToolCall,
-    },
-    apiKey,
-    modelName,
+    toolsConfig: toolRegistry,
+    createProvider,
+    streamResponses,
+    requestTimeoutMs,
+    retry,
+    maxToolRounds,
+    confirmToolCall,
+    turnContext: sendTurnContext
+      ? {
+          provider: turnContext.provider ?? getRecipeBookState,
+          maxChars: turnContext.maxChars,
+        }
+      : undefined,
+    historyBudget,
   };
 }
+
+/**
+ * Reports tasks that don't match the registered tools, so that e.g. a
+ * renamed tool is caught before the prompt is sent to the model. The
+ * warnings are for development builds only.
+ * @throws AgentConfigError In strict mode, if there are problems.
+ */
+function _checkTasks(tasks: AssistantTask[], strict: boolean): void {
+  if (!strict && !import.meta.env.DEV) return;
+  const issues = validateTasks(tasks, toolRegistry.functionDeclarations);
+  if (issues.length === 0) return;
+  if (strict) {
+    throw new AgentConfigError(issues);
+  }
+  for (const issue of issues) {
+    console.warn(`Agent config: ${issue.message}`);
+  }
+}
+
+/**
+ * Creates the matcher for commands that can run without the model, built
+ * from the same tasks as the system prompt.
+ */
+export function getIntentMatcher(): IntentMatcher {
+  return new IntentMatcher(
+    toolRegistry.getTasks(),
+    [...recipeBookLocalIntents, ...agentLocalIntents].filter((intent) =>
+      toolRegistry.has(intent.functionName),
+    ),
+    {maskSlots: maskRecipeSlots},
+  );
+}
@@ -0,0 +1,193 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Tools that control the agent itself rather than the host application.
+// Unlike the app tools in tools.ts, these work in any host app.
+
+import {FunctionDeclarationSchemaType as SchemaType} from '@google/generative-ai';
+import {defineLocalIntent, LocalIntent} from '../services/intentMatcher';
+import {
+  AGENT_PREFERENCE_NAMES,
+  AgentPreferenceName,
+  describePreferenceValues,
+} from '../services/preferencesStore';
+import {ListeningMode} from '../state/state';
+import {defineTool, RegisteredTool} from './toolRegistry';
+
+/**
+ * Agent capabilities exposed to the agent tools, implemented in agent.ts.
+ */
+export interface AgentControls {
+  /** Switches listening mode and returns a confirmation for the model. */
+  setListeningMode(mode: ListeningMode): string;
+  /**
+   * Sets one of the user's preferences, or goes back to its default if the
+   * value is null, and returns a confirmation for the model.
+   */
+  setPreference(name: AgentPreferenceName, value: string | null): string;
+  /** Goes back to the default preferences and returns a confirmation. */
+  resetPreferences(): string;
+  /**
+   * Forgets the conversation, including the saved session, once the current
+   * turn is done, and returns a confirmation.
+   */
+  forgetConversation(): string;
+}
+
+// --- Tools ---
+
+const LISTENING_MODES = ['continuous', 'wakePhrase', 'pushToTalk'] as const;
+
+/**
+ * Creates the agent tools.
+ * @param controls The agent capabilities the tools act on.
+ */
+export function createAgentTools(controls: AgentControls): RegisteredTool[] {
+  return [
+    defineTool({
+      name: 'set_listening_mode',
+      description:
+        "Switches how the agent listens. 'continuous' is hands-free: the agent listens all the time and answers each time the user pauses. 'wakePhrase' is also hands-free, but the agent only responds after the user says the wake phrase. 'pushToTalk' only listens while the microphone button or shortcut is held.",
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          mode: {
+            type: SchemaType.STRING,
+            enum: LISTENING_MODES,
+            description: "One of 'continuous', 'wakePhrase' or 'pushToTalk'.",
+          },
+        },
+        required: ['mode'],
+      },
+      task: 'Switches between hands-free listening, listening for the wake phrase, and push-to-talk for the microphone.',
+      examples: [
+        'Turn on hands-free mode',
+        'Keep listening',
+        'Only listen when I say the wake phrase',
+        'Stop listening all the time',
+        'Switch back to push to talk',
+      ],
+      handler: ({mode}) => {
+        if (!LISTENING_MODES.includes(mode)) {
+          return `Error: Unknown listening mode "${mode}".`;
+        }
+        return controls.setListeningMode(mode);
+      },
+    }),
+    defineTool({
+      name: 'set_agent_preference',
+      description: `Changes how you answer the user from the next message on, and remembers it across visits. Preferences and their values: ${AGENT_PREFERENCE_NAMES.map(
+        (name) => `${name} (${describePreferenceValues(name)})`,
+      ).join('; ')}.`,
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+          name: {
+            type: SchemaType.STRING,
+            enum: AGENT_PREFERENCE_NAMES,
+            description: 'The preference to change.',
+          },
+          value: {
+            type: SchemaType.STRING,
+            description:
+              "The new value, e.g. 'concise' or 'metric'. For language, the name of the language, e.g. 'Spanish'. Use 'default' to go back to the default.",
+          },
+        },
+        required: ['name', 'value'],
+      },
+      task: 'Changes how the assistant answers: how long (verbosity), the tone, the reading level, the units for quantities, or the language.',
+      examples: [
+        'Keep your answers short',
+        'Use metric units',
+        'Please be more formal',
+        'Explain things more simply',
+        'Answer in Spanish',
+      ],
+      handler: ({name, value}) =>
+        controls.setPreference(
+          name as AgentPreferenceName,
+          value === 'default' ? null : value,
+        ),
+    }),
+    defineTool({
+      name: 'reset_agent_preferences',
+      description:
+        'Forgets all of the preferences set with set_agent_preference and goes back to the defaults.',
+      examples: ['Reset my preferences', 'Go back to your default settings'],
+      handler: () => controls.resetPreferences(),
+    }),
+    defineTool({
+      name: 'forget_conversation',
+      description:
+        'Forgets everything said in this conversation, also from the browser storage, and starts a new one after this answer.',
+      task: 'Forgets the conversation so far, e.g. for privacy or to start over.',
+      examples: [
+        'Forget our conversation',
+        'Clear the chat history',
+        "Let's start over from scratch",
+      ],
+      confirmation: () => 'Forget our whole conversation?',
+      handler: () => controls.forgetConversation(),
+    }),
+  ];
+}
+
+/**
+ * The names of the agent tools, e.g. to unregister them.
+ */
+export const agentToolNames = [
+  'set_listening_mode',
+  'set_agent_preference',
+  'reset_agent_preferences',
+  'forget_conversation',
+];
+
+// --- Local Intents ---
+
+export interface SetListeningModeArgs {
+  mode: ListeningMode;
+}
+
+export const agentLocalIntents: LocalIntent[] = [
+  defineLocalIntent({
+    functionName: 'set_listening_mode',
+    examples: ['Hands-free mode', 'Wake phrase mode', 'Push to talk'],
+    extractArgs(text): SetListeningModeArgs | null {
+      if (/\bwake (word|phrase)\b/i.test(text)) return {mode: 'wakePhrase'};
+      if (/\bpush[- ]to[- ]talk\b|\bstop listening\b/i.test(text)) {
+        return {mode: 'pushToTalk'};
+      }
+      if (/\b(hands[- ]free|keep listening)\b/i.test(text)) {
+        return {mode: 'continuous'};
+      }
+      return null;
+    },
+    confirm: ({mode}: SetListeningModeArgs) => {
+      switch (mode) {
+        case 'continuous':
+          return 'Hands-free listening is on.';
+        case 'wakePhrase':
+          return 'Say the wake phrase before each request.';
+        default:
+          return 'Push-to-talk is on.';
+      }
+    },
+  }),
+  defineLocalIntent({
+    functionName: 'forget_conversation',
+    examples: ['Forget everything', 'Clear our conversation'],
+    extractArgs: () => ({}),
+    confirm: () => 'I forgot our conversation.',
+  }),
+];
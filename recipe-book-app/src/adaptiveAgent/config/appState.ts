@@ -0,0 +1,55 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {getRecipe} from '../../api';
+import {currentFontSize, favorites} from '../../state';
+import {TurnContext} from '../gemini/turnContext';
+import {getOpenRecipeId} from './tools';
+
+/**
+ * Snapshots what the user sees in the Recipe Book, sent to the model with
+ * each message: the view, the open recipe or the listed ones in screen
+ * order, the favorites and the display settings.
+ */
+export function getRecipeBookState(): TurnContext {
+  const openRecipeId = getOpenRecipeId();
+  const searchInput = document.getElementById(
+    'search-input',
+  ) as HTMLInputElement | null;
+  const state: TurnContext = {};
+
+  if (openRecipeId !== null) {
+    state.view = 'recipe detail';
+    state.openRecipe = {
+      id: openRecipeId,
+      title: getRecipe(openRecipeId)?.title,
+    };
+  } else {
+    state.view = 'recipe list';
+    if (searchInput?.value) {
+      state.searchQuery = searchInput.value;
+    }
+    state.listedRecipeIds = Array.from(
+      document.querySelectorAll<HTMLElement>('#recipe-list > div'),
+    )
+      .map((card) => parseInt(card.dataset.recipeId ?? '', 10))
+      .filter((id) => !isNaN(id));
+  }
+  state.favoriteRecipeIds = [...favorites];
+  state.theme = document.documentElement.classList.contains('dark')
+    ? 'dark'
+    : 'light';
+  state.fontSizePx = currentFontSize;
+  return state;
+}
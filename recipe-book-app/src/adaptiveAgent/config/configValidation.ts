@@ -0,0 +1,115 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {FunctionDeclaration} from '@google/generative-ai';
+import {AssistantTask} from './systemInstructionsFactory';
+
+/**
+ * The kinds of mismatch between the system prompt and the tools.
+ * - 'unknownFunction': A task calls a function that isn't declared.
+ * - 'toolWithoutTask': A declared tool isn't described by any task.
+ * - 'duplicateExample': The same example query appears more than once.
+ */
+export type ConfigIssueKind =
+  | 'unknownFunction'
+  | 'toolWithoutTask'
+  | 'duplicateExample';
+
+export interface ConfigIssue {
+  kind: ConfigIssueKind;
+  message: string;
+}
+
+/**
+ * Thrown in strict mode if the system prompt doesn't match the tools.
+ */
+export class AgentConfigError extends Error {
+  constructor(readonly issues: ConfigIssue[]) {
+    super(
+      "The system prompt's tasks don't match the tools:\n" +
+        issues.map((issue) => `- ${issue.message}`).join('\n'),
+    );
+    this.name = 'AgentConfigError';
+  }
+}
+
+/**
+ * Cross-checks the tasks of the system prompt against the declared tools.
+ * @param tasks The tasks, as passed to the SystemInstructionsFactory.
+ * @param functionDeclarations The tools the model may call.
+ * @returns The problems found; empty if the tasks match the tools.
+ */
+export function validateTasks(
+  tasks: AssistantTask[],
+  functionDeclarations: FunctionDeclaration[],
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const declared = new Set(functionDeclarations.map((f) => f.name));
+  const described = new Set<string>();
+  // First task using each example query, by normalized query
+  const examples = new Map<string, number>();
+
+  tasks.forEach((task, index) => {
+    for (const name of task.functionCallSequence ?? []) {
+      described.add(name);
+      if (!declared.has(name)) {
+        issues.push({
+          kind: 'unknownFunction',
+          message: `${_describeTask(task, index)} calls \`${name}\`, which is not a declared tool.`,
+        });
+      }
+    }
+    for (const example of task.exampleQueries ?? []) {
+      const key = _normalize(example);
+      const firstIndex = examples.get(key);
+      if (firstIndex === undefined) {
+        examples.set(key, index);
+        continue;
+      }
+      issues.push({
+        kind: 'duplicateExample',
+        message:
+          firstIndex === index
+            ? `${_describeTask(task, index)} lists the example "${example}" twice.`
+            : `The example "${example}" of ${_describeTask(task, index)} is also an example of ${_describeTask(tasks[firstIndex], firstIndex)}.`,
+      });
+    }
+  });
+
+  for (const name of declared) {
+    if (!described.has(name)) {
+      issues.push({
+        kind: 'toolWithoutTask',
+        message: `The tool \`${name}\` is not described by any task.`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Names a task the way the system prompt numbers it, with its functions.
+ */
+function _describeTask(task: AssistantTask, index: number): string {
+  const functions = task.functionCallSequence?.join(' -> ');
+  return functions ? `Task ${index + 1} (${functions})` : `Task ${index + 1}`;
+}
+
+function _normalize(example: string): string {
+  return example
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
@@ -0,0 +1,245 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Recipe Book commands that are simple enough to run without the model, so
+// they keep working offline and respond instantly. Anything that needs the
+// model to read a tool result back (list_recipes, get_recipe_details...) is
+// left out.
+
+import {recipes} from '../../data/recipes';
+import {defineLocalIntent, LocalIntent} from '../services/intentMatcher';
+import {
+  getOpenRecipeId,
+  MarkAsFavoriteArgs,
+  SearchRecipesArgs,
+  SetDarkModeArgs,
+  SetFontSizeArgs,
+  ViewRecipeArgs,
+} from './tools';
+
+const FONT_SIZE_STEP = 0.2;
+const FONT_SIZE_SMALL_STEP = 0.1;
+const FONT_SIZE_LARGE_STEP = 0.5;
+
+// Words too common in recipe titles to identify one on their own
+const TITLE_STOP_WORDS = new Set(['and', 'classic', 'simple', 'homemade']);
+
+const RECIPE_ID_PATTERN = /\b(?:recipe|number|id)\s*(?:id\s*)?#?(\d+)\b/i;
+
+function _words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map((word) => (word.length > 3 ? word.replace(/([^s])s$/, '$1') : word));
+}
+
+/**
+ * Finds the recipe the user is talking about: by ID ("recipe 7"), by the
+ * words of its title ("the pancakes" for Classic Pancakes) or, for "this
+ * recipe", the one that is open.
+ * @returns The recipe, or undefined if none or several match.
+ */
+function _findRecipe(text: string) {
+  const idMatch = RECIPE_ID_PATTERN.exec(text);
+  if (idMatch) {
+    const id = parseInt(idMatch[1], 10);
+    return recipes.find((recipe) => recipe.id === id);
+  }
+
+  const words = new Set(_words(text));
+  let best: {recipe: (typeof recipes)[number]; score: number} | null = null;
+  let isTie = false;
+  for (const recipe of recipes) {
+    const titleWords = _words(recipe.title).filter(
+      (word) => !TITLE_STOP_WORDS.has(word),
+    );
+    const shared = titleWords.filter((word) => words.has(word)).length;
+    if (shared === 0) continue;
+    const score = shared / titleWords.length;
+    if (!best || score > best.score) {
+      best = {recipe, score};
+      isTie = false;
+    } else if (score === best.score) {
+      isTie = true;
+    }
+  }
+  if (best && !isTie) {
+    return best.recipe;
+  }
+
+  if (/\b(this|that|current|open) (one|recipe|dish)\b/i.test(text)) {
+    const openRecipeId = getOpenRecipeId();
+    return recipes.find((recipe) => recipe.id === openRecipeId);
+  }
+  return undefined;
+}
+
+/**
+ * Replaces recipe names and numbers with placeholder words, see
+ * IntentMatcherOptions.maskSlots.
+ */
+export function maskRecipeSlots(text: string): string {
+  const recipe = _findRecipe(text.replace(RECIPE_ID_PATTERN, ''));
+  const titleWords = new Set(recipe ? _words(recipe.title) : []);
+  return text
+    .split(/\s+/)
+    .map((word) => {
+      if (/^\d+(\.\d+)?%?$/.test(word)) return 'number';
+      const [stem] = _words(word);
+      return stem && titleWords.has(stem) ? 'recipe' : word;
+    })
+    .join(' ');
+}
+
+/**
+ * Works out the font size factor from e.g. "bigger", "a little smaller" or
+ * "50% larger".
+ * @returns The factor, or null if the direction is unclear.
+ */
+function _getFontSizeFactor(text: string): number | null {
+  const isLarger =
+    /\b(bigger|larger|increase|enlarge|up|can'?t read|hard to read)\b/i.test(
+      text,
+    );
+  const isSmaller = /\b(smaller|decrease|reduce|shrink|down)\b/i.test(text);
+  if (isLarger === isSmaller) return null;
+
+  const percent = /(\d+(?:\.\d+)?)\s*(%|percent)/i.exec(text);
+  let step = FONT_SIZE_STEP;
+  if (percent) {
+    step = parseFloat(percent[1]) / 100;
+  } else if (/\b(double|twice)\b/i.test(text)) {
+    step = 1;
+  } else if (/\b(half)\b/i.test(text)) {
+    step = 0.5;
+  } else if (/\b(little|bit|slightly|tad)\b/i.test(text)) {
+    step = FONT_SIZE_SMALL_STEP;
+  } else if (/\b(lot|much|way)\b/i.test(text)) {
+    step = FONT_SIZE_LARGE_STEP;
+  }
+  const factor = isLarger ? 1 + step : 1 - step;
+  // Keep within the range set_font_size accepts
+  return Math.round(Math.min(Math.max(factor, 0.5), 2) * 100) / 100;
+}
+
+export const recipeBookLocalIntents: LocalIntent[] = [
+  defineLocalIntent({
+    functionName: 'set_dark_mode',
+    examples: [
+      'Dark mode on',
+      'Dark mode off',
+      'Turn on dark mode',
+      'Turn off dark mode',
+      'Light mode',
+      "It's too dark",
+    ],
+    extractArgs(text): SetDarkModeArgs {
+      const enabled =
+        !/\b(light|too dark|bright(er)?)\b/i.test(text) ||
+        /\btoo bright\b/i.test(text);
+      const isTurnedOff = /\b(off|disable|stop)\b/i.test(text);
+      return {enabled: isTurnedOff ? !enabled : enabled};
+    },
+    confirm: ({enabled}: SetDarkModeArgs) =>
+      enabled ? 'Dark mode is on.' : 'Light mode is on.',
+  }),
+  defineLocalIntent({
+    functionName: 'set_font_size',
+    examples: [
+      'Bigger text',
+      'Smaller text',
+      'Larger font',
+      'Make the text smaller',
+      'Text size up',
+      'Text size down',
+    ],
+    extractArgs(text): SetFontSizeArgs | null {
+      const factor = _getFontSizeFactor(text);
+      return factor === null ? null : {factor};
+    },
+    confirm: ({factor}: SetFontSizeArgs) =>
+      factor > 1 ? 'The text is bigger now.' : 'The text is smaller now.',
+  }),
+  defineLocalIntent({
+    functionName: 'go_back_to_list',
+    examples: ['Go back', 'Back to the list', 'Back to all recipes'],
+    extractArgs: () => ({}),
+    confirm: () => 'Back to the recipe list.',
+  }),
+  defineLocalIntent({
+    functionName: 'view_recipe',
+    examples: ['Open the recipe', 'Show the recipe', 'Open recipe 7'],
+    extractArgs(text): ViewRecipeArgs | null {
+      const recipe = _findRecipe(text);
+      return recipe ? {recipe_id: recipe.id} : null;
+    },
+    confirm: ({recipe_id}: ViewRecipeArgs) =>
+      `Here is the ${recipes.find((recipe) => recipe.id === recipe_id)?.title ?? 'recipe'}.`,
+  }),
+  defineLocalIntent({
+    functionName: 'mark_as_favorite',
+    examples: [
+      'Favorite this recipe',
+      'Add to favorites',
+      'Remove from favorites',
+    ],
+    extractArgs(text): MarkAsFavoriteArgs | null {
+      const recipe = _findRecipe(text);
+      if (!recipe) return null;
+      return {
+        recipe_id: recipe.id,
+        is_favorite: !/\b(remove|unfavou?rite|delete|take)\b/i.test(text),
+      };
+    },
+    confirm: ({recipe_id, is_favorite}: MarkAsFavoriteArgs) => {
+      const title =
+        recipes.find((recipe) => recipe.id === recipe_id)?.title ?? 'Recipe';
+      return `${title} ${is_favorite ? 'added to' : 'removed from'} your favorites.`;
+    },
+  }),
+  defineLocalIntent({
+    functionName: 'search_recipes',
+    examples: ['Search for chicken', 'Find pasta'],
+    extractArgs(text): SearchRecipesArgs | null {
+      const query = text
+        .replace(
+          /^.*?\b(find|search|look|show me)\b(\s+(for|up))?(\s+(some|any|all))?(\s+(recipes?|dishes)\s+(with|for))?/i,
+          '',
+        )
+        .replace(/\b(recipes?|dishes)\b/gi, '')
+        .replace(/[.!?]+$/, '')
+        .trim();
+      return query ? {query} : null;
+    },
+    // The tool's own result already says how many recipes were found
+    confirm: (args, result) =>
+      typeof result === 'string' ? result : 'Here are the results.',
+  }),
+  defineLocalIntent({
+    functionName: 'undo_last_action',
+    examples: ['Undo', 'Undo that', 'Take that back'],
+    extractArgs: () => ({}),
+    // The tool's result says what was undone
+    confirm: (args, result) =>
+      typeof result === 'string' ? result : 'Undone.',
+  }),
+  defineLocalIntent({
+    functionName: 'redo_action',
+    examples: ['Redo', 'Redo that'],
+    extractArgs: () => ({}),
+    confirm: (args, result) =>
+      typeof result === 'string' ? result : 'Redone.',
+  }),
+];
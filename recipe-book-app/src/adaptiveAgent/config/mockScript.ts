@@ -0,0 +1,151 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {recipes} from '../../data/recipes';
+import {MockReply, MockScript} from '../gemini/mockProvider';
+
+/**
+ * Finds a recipe whose title is mentioned in the text, ignoring case.
+ */
+function findMentionedRecipe(text: string) {
+  const lowerText = text.toLowerCase();
+  return recipes.find((recipe) =>
+    lowerText.includes(recipe.title.toLowerCase()),
+  );
+}
+
+function recipeReply(
+  text: string,
+  buildReply: (recipeId: number) => MockReply,
+): MockReply {
+  const recipe = findMentionedRecipe(text);
+  if (!recipe) {
+    return {text: "I couldn't find a recipe with that name."};
+  }
+  return buildReply(recipe.id);
+}
+
+/**
+ * A script for the MockProvider covering the Recipe Book's core commands.
+ * It lets the agent be developed and demoed without network access.
+ */
+export const recipeBookMockScript: MockScript = {
+  chunkDelayMs: 40,
+  rules: [
+    {
+      match: /\bundo\b|\bnot what I meant\b/i,
+      reply: {functionCalls: [{name: 'undo_last_action', args: {}}]},
+    },
+    {
+      match: /\bredo\b/i,
+      reply: {functionCalls: [{name: 'redo_action', args: {}}]},
+    },
+    {
+      match: /\bwake (word|phrase)\b/i,
+      reply: {
+        functionCalls: [
+          {name: 'set_listening_mode', args: {mode: 'wakePhrase'}},
+        ],
+      },
+    },
+    {
+      match: /\b(hands[- ]free|keep listening)\b/i,
+      reply: {
+        functionCalls: [
+          {name: 'set_listening_mode', args: {mode: 'continuous'}},
+        ],
+      },
+    },
+    {
+      match: /\bpush[- ]to[- ]talk\b|\bstop listening\b/i,
+      reply: {
+        functionCalls: [
+          {name: 'set_listening_mode', args: {mode: 'pushToTalk'}},
+        ],
+      },
+    },
+    {
+      match: /\b(dark mode|dark theme|too bright)\b/i,
+      reply: {functionCalls: [{name: 'set_dark_mode', args: {enabled: true}}]},
+    },
+    {
+      match: /\b(light mode|light theme|too dark)\b/i,
+      reply: {
+        functionCalls: [{name: 'set_dark_mode', args: {enabled: false}}],
+      },
+    },
+    {
+      match: /\b(bigger|larger|increase)\b/i,
+      reply: {functionCalls: [{name: 'set_font_size', args: {factor: 1.2}}]},
+    },
+    {
+      match: /\b(smaller|decrease)\b/i,
+      reply: {functionCalls: [{name: 'set_font_size', args: {factor: 0.8}}]},
+    },
+    {
+      match: /\bgo back\b|\ball recipes\b/i,
+      reply: {functionCalls: [{name: 'go_back_to_list', args: {}}]},
+    },
+    {
+      match: /\b(unfavorite|remove .* from my favorites)\b/i,
+      reply: (match) =>
+        recipeReply(match.input ?? '', (recipeId) => ({
+          functionCalls: [
+            {
+              name: 'mark_as_favorite',
+              args: {recipe_id: recipeId, is_favorite: false},
+            },
+          ],
+        })),
+    },
+    {
+      match: /\b(add .* to my favorites|save)\b/i,
+      reply: (match) =>
+        recipeReply(match.input ?? '', (recipeId) => ({
+          functionCalls: [
+            {
+              name: 'mark_as_favorite',
+              args: {recipe_id: recipeId, is_favorite: true},
+            },
+          ],
+        })),
+    },
+    {
+      match: /\bfavorites\b/i,
+      reply: {
+        functionCalls: [{name: 'list_favorites', args: {}}],
+        followUpText: 'Here are your favorite recipes.',
+      },
+    },
+    {
+      match: /\b(open|show me|view)\b/i,
+      reply: (match) =>
+        recipeReply(match.input ?? '', (recipeId) => ({
+          functionCalls: [{name: 'view_recipe', args: {recipe_id: recipeId}}],
+        })),
+    },
+    {
+      match: /\b(?:find|search for|search)\s+(?:recipes with\s+)?(.+)/i,
+      reply: (match) => ({
+        functionCalls: [
+          {name: 'search_recipes', args: {query: match[1].replace(/[.?!]$/, '')}},
+        ],
+      }),
+    },
+    {
+      match: /\b(hello|hi)\b/i,
+      reply: {text: 'Hello! I am running in offline mode. How can I help?'},
+    },
+  ],
+};
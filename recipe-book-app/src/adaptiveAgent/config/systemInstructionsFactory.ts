@@ -52,10 +52,16 @@ export type UserPreferences = Record<string, string>;
 export interface SystemInstructionsFactoryConfig {
   /** The primary goal or purpose of the AI assistant. */
   goal: string;
-  /** A list of specific tasks the assistant can perform. */
-  tasks?: AssistantTask[]; // Optional: Assistant might not have specific tools
-  /** User-specific preferences to tailor the assistant's behavior. */
-  userPreferences?: UserPreferences; // Optional: Defaults can be used if not provided
+  /**
+   * A list of specific tasks the assistant can perform, or a function that
+   * returns them each time a prompt is created (e.g. from a ToolRegistry).
+   */
+  tasks?: AssistantTask[] | (() => AssistantTask[]); // Optional: Assistant might not have specific tools
+  /**
+   * User-specific preferences to tailor the assistant's behavior, or a
+   * function that returns them each time a prompt is created.
+   */
+  userPreferences?: UserPreferences | (() => UserPreferences); // Optional: Defaults can be used if not provided
   /** Contextual information about the application environment. */
   appContext?: AppContext; // Optional: Not always needed
 }
@@ -67,8 +73,8 @@ export interface SystemInstructionsFactoryConfig {
  */
 export class SystemInstructionsFactory {
   private readonly goal: string;
-  private readonly tasks: AssistantTask[];
-  private readonly userPreferences: UserPreferences;
+  private readonly getTasks: () => AssistantTask[];
+  private readonly getUserPreferences: () => UserPreferences;
   private readonly appContext: AppContext;
 
   /**
@@ -77,8 +83,13 @@ export class SystemInstructionsFactory {
    */
   constructor(config: SystemInstructionsFactoryConfig) {
     this.goal = config.goal;
-    this.tasks = config.tasks ?? []; // Default to empty array if undefined
-    this.userPreferences = config.userPreferences ?? {}; // Default to empty object
+    const tasks = config.tasks ?? []; // Default to empty array if undefined
+    this.getTasks = typeof tasks === 'function' ? tasks : () => tasks;
+    const userPreferences = config.userPreferences ?? {}; // Default to empty object
+    this.getUserPreferences =
+      typeof userPreferences === 'function'
+        ? userPreferences
+        : () => userPreferences;
     this.appContext = config.appContext ?? {}; // Default to empty object
   }
 
@@ -125,7 +136,8 @@ export class SystemInstructionsFactory {
    * @returns A formatted string for user preferences, or an empty string if no preferences exist.
    */
   private buildUserPreferencesSection(): string {
-    const preferenceKeys = Object.keys(this.userPreferences);
+    const userPreferences = this.getUserPreferences();
+    const preferenceKeys = Object.keys(userPreferences);
     if (preferenceKeys.length === 0) {
       return '';
     }
@@ -133,9 +145,9 @@ export class SystemInstructionsFactory {
     let section = '## User Preferences\n';
     section +=
       'Please adhere to the following user preferences when generating your response:\n';
-    for (const key in this.userPreferences) {
-      if (Object.prototype.hasOwnProperty.call(this.userPreferences, key)) {
-        section += `- ${key}: ${this.userPreferences[key]}\n`;
+    for (const key in userPreferences) {
+      if (Object.prototype.hasOwnProperty.call(userPreferences, key)) {
+        section += `- ${key}: ${userPreferences[key]}\n`;
       }
     }
     return section + '\n'; // Add extra newline for spacing
@@ -146,7 +158,8 @@ export class SystemInstructionsFactory {
    * @returns A formatted string describing available tasks, or an empty string if no tasks exist.
    */
   private buildTasksSection(): string {
-    if (this.tasks.length === 0) {
+    const tasks = this.getTasks();
+    if (tasks.length === 0) {
       return '';
     }
 
@@ -154,7 +167,7 @@ export class SystemInstructionsFactory {
     section +=
       "You have access to the following tools/tasks. If the user's query matches the description or examples of a task, you should invoke the specified function(s) in the given order.\n\n";
 
-    this.tasks.forEach((task, index) => {
+    tasks.forEach((task, index) => {
       section += `### Task ${index + 1}\n`;
       section += `- Description: ${task.description}\n`;
       if (task.exampleQueries && task.exampleQueries.length > 0) {
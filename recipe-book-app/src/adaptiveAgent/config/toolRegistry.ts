@@ -0,0 +1,283 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  FunctionDeclaration,
+  FunctionDeclarationSchema,
+  FunctionDeclarationSchemaType as SchemaType,
+} from '@google/generative-ai';
+import EventEmitter from 'eventemitter3';
+import {validateToolArgs} from '../gemini/toolValidation';
+import {ToolMetadata} from './agentConfig';
+import {AssistantTask} from './systemInstructionsFactory';
+
+/**
+ * A parameter schema, in the OpenAPI subset used by the Gemini API. Unlike
+ * the SDK's types, it accepts the readonly literals that `defineTool` infers
+ * the handler's arguments from, and numeric bounds.
+ */
+export interface ToolSchema {
+  type: SchemaType;
+  description?: string;
+  format?: string;
+  nullable?: boolean;
+  enum?: readonly string[];
+  minimum?: number;
+  maximum?: number;
+  /** For arrays: the schema of the items. */
+  items?: ToolSchema;
+  /** For objects: the schema of each property. */
+  properties?: {readonly [name: string]: ToolSchema};
+  /** For objects: the properties that must be present. */
+  required?: readonly string[];
+}
+
+/**
+ * The parameters of a tool: an object schema with one property per argument.
+ */
+export interface ToolParametersSchema extends ToolSchema {
+  type: SchemaType.OBJECT;
+  properties: {readonly [name: string]: ToolSchema};
+}
+
+/**
+ * The value described by a schema, e.g. `{query: string; limit?: number}`.
+ */
+export type SchemaValue<S> = S extends {nullable: true}
+  ? _NonNullValue<S> | null
+  : _NonNullValue<S>;
+
+type _NonNullValue<S> = S extends {enum: readonly (infer E)[]}
+  ? E
+  : S extends {type: SchemaType.STRING}
+    ? string
+    : S extends {type: SchemaType.NUMBER | SchemaType.INTEGER}
+      ? number
+      : S extends {type: SchemaType.BOOLEAN}
+        ? boolean
+        : S extends {type: SchemaType.ARRAY; items: infer I}
+          ? SchemaValue<I>[]
+          : S extends {type: SchemaType.OBJECT; properties: infer P}
+            ? _ObjectValue<
+                P,
+                S extends {required: readonly (infer R)[]} ? R : never
+              >
+            : unknown;
+
+type _ObjectValue<P, R> = {
+  -readonly [K in keyof P as K extends R ? K : never]: SchemaValue<P[K]>;
+} & {
+  -readonly [K in keyof P as K extends R ? never : K]?: SchemaValue<P[K]>;
+};
+
+/** What a tool returns to the model. */
+export type ToolResult = string | object | null;
+
+/**
+ * Everything about a tool, from which its function declaration, its entry
+ * in the dispatcher, its task in the system prompt and its metadata are
+ * derived.
+ */
+export interface ToolDefinition<
+  P extends ToolParametersSchema = ToolParametersSchema,
+> {
+  /** The function name the model calls, e.g. 'search_recipes'. */
+  name: string;
+  /** What the tool does, for the function declaration. */
+  description: string;
+  /** The arguments. Omit for tools without arguments. */
+  parameters?: P;
+  /** Runs the tool with arguments that match `parameters`. */
+  handler: (args: SchemaValue<P>) => ToolResult | Promise<ToolResult>;
+  /**
+   * User queries that should trigger the tool. Tools with examples get a
+   * task in the system prompt and are matched by the IntentMatcher.
+   */
+  examples?: string[];
+  /**
+   * When to use the tool, for its task in the system prompt. Defaults to
+   * `description`.
+   */
+  task?: string;
+  /**
+   * Whether the tool changes the UI or app state. Tools that don't mutate
+   * may run in parallel, see ToolMetadata.readOnly. Defaults to true.
+   */
+  mutates?: boolean;
+  /** See ToolMetadata.confirmation. */
+  confirmation?: (args: SchemaValue<P>) => string | null;
+}
+
+/**
+ * A tool with any parameters, as held by a ToolRegistry. Every
+ * ToolDefinition is one; as the arguments its handler takes are unknown
+ * here, it's only called with arguments checked against `parameters`.
+ */
+export interface RegisteredTool extends Omit<
+  ToolDefinition,
+  'parameters' | 'handler' | 'confirmation'
+> {
+  parameters?: ToolParametersSchema;
+  handler: (args: never) => ToolResult | Promise<ToolResult>;
+  confirmation?: (args: never) => string | null;
+}
+
+/**
+ * The arguments of a tool defined with `defineTool`, e.g.
+ * `ToolArgs<typeof searchRecipesTool>`.
+ */
+export type ToolArgs<T> =
+  T extends ToolDefinition<infer P> ? SchemaValue<P> : never;
+
+// Declared by tools without arguments, as the model expects an object
+const NO_PARAMETERS = {type: SchemaType.OBJECT, properties: {}} as const;
+
+/**
+ * Defines a tool. The handler's arguments are inferred from `parameters`.
+ * @param definition The tool, see ToolDefinition.
+ * @returns The same definition, to register in a ToolRegistry.
+ */
+export function defineTool<
+  const P extends ToolParametersSchema = typeof NO_PARAMETERS,
+>(definition: ToolDefinition<P>): ToolDefinition<P> {
+  return definition;
+}
+
+/** The function declaration of a tool. */
+function _toDeclaration(tool: RegisteredTool): FunctionDeclaration {
+  return {
+    name: tool.name,
+    description: tool.description,
+    // Same shape; only the SDK's types are mutable
+    parameters: (tool.parameters ??
+      NO_PARAMETERS) as unknown as FunctionDeclarationSchema,
+  };
+}
+
+/**
+ * Defines the events emitted by the ToolRegistry.
+ */
+export type ToolRegistryEvent = 'change';
+
+/**
+ * The tools the model may call. Usable as the `toolsConfig` of the
+ * GeminiClient, which picks up registrations at the start of each turn.
+ */
+export class ToolRegistry extends EventEmitter<ToolRegistryEvent> {
+  private readonly tools = new Map<string, RegisteredTool>();
+
+  /**
+   * @param tools The tools to register initially.
+   */
+  constructor(tools: RegisteredTool[] = []) {
+    super();
+    for (const tool of tools) {
+      this.tools.set(tool.name, tool);
+    }
+  }
+
+  /**
+   * Registers tools, replacing any with the same name.
+   * @returns A function that unregisters them again.
+   */
+  register(...tools: RegisteredTool[]): () => void {
+    for (const tool of tools) {
+      this.tools.set(tool.name, tool);
+    }
+    this.emit('change');
+    return () => this.unregister(...tools.map((tool) => tool.name));
+  }
+
+  /**
+   * Unregisters tools by name. Unknown names are ignored.
+   */
+  unregister(...names: string[]): void {
+    const removed = names.filter((name) => this.tools.delete(name));
+    if (removed.length > 0) {
+      this.emit('change');
+    }
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): RegisteredTool | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * The function declarations of the registered tools, in registration order.
+   */
+  get functionDeclarations(): FunctionDeclaration[] {
+    return [...this.tools.values()].map(_toDeclaration);
+  }
+
+  /**
+   * The metadata of the registered tools, by name.
+   */
+  get toolMetadata(): Record<string, ToolMetadata> {
+    const metadata: Record<string, ToolMetadata> = {};
+    for (const tool of this.tools.values()) {
+      const {confirmation} = tool;
+      metadata[tool.name] = {
+        readOnly: tool.mutates === false,
+        // Calls with invalid arguments don't run, so there's nothing to ask
+        confirmation:
+          confirmation &&
+          ((args) =>
+            validateToolArgs(_toDeclaration(tool), args).length > 0
+              ? null
+              : confirmation(args as never)),
+      };
+    }
+    return metadata;
+  }
+
+  /**
+   * The tasks for the system prompt: one per tool with examples.
+   */
+  getTasks(): AssistantTask[] {
+    return [...this.tools.values()]
+      .filter((tool) => tool.examples?.length)
+      .map((tool) => ({
+        description: tool.task ?? tool.description,
+        exampleQueries: tool.examples,
+        functionCallSequence: [tool.name],
+      }));
+  }
+
+  /**
+   * Runs a tool call.
+   * @returns The tool's result, or an error message for unknown tools and
+   *     invalid arguments.
+   */
+  handleToolCall = async (
+    functionName: string,
+    args: unknown,
+  ): Promise<ToolResult> => {
+    const tool = this.tools.get(functionName);
+    if (!tool) {
+      console.error(`Error: Function ${functionName} not found.`);
+      return `Error: Tool ${functionName} is not available.`;
+    }
+    const errors = validateToolArgs(_toDeclaration(tool), args);
+    if (errors.length > 0) {
+      console.error(`Error: Invalid arguments for ${functionName}:`, errors);
+      return `Error: Invalid arguments for ${functionName}.`;
+    }
+    // Valid, so they're the SchemaValue of the tool's parameters
+    return await tool.handler((args ?? {}) as never);
+  };
+}
@@ -12,56 +12,80 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import {
-  FunctionDeclaration,
-  FunctionDeclarationSchemaType as SchemaType,
-} from '@google/generative-ai';
+import {FunctionDeclarationSchemaType as SchemaType} from '@google/generative-ai';
 import {
   getRecipe,
   markAsFavorite,
   searchRecipes as searchRecipesAPI,
+  setBaseFontSize,
   setDarkMode,
   setFontSizeFactor,
 } from '../../api';
 import {recipes} from '../../data/recipes';
-import {favorites} from '../../state';
+import {currentFontSize, favorites} from '../../state';
 import {
   renderFavorites,
   renderRecipeList,
   showRecipeListView,
   viewRecipe,
 } from '../../ui/render';
+import {UndoStack} from '../services/undoStack';
+import {defineTool, RegisteredTool, ToolArgs} from './toolRegistry';
+
+// --- Undo History ---
 
-// --- Tool Interfaces ---
+/**
+ * The actions performed by the tools, for undo_last_action and redo_action.
+ */
+export const undoStack = new UndoStack();
 
-export interface SearchRecipesArgs {
-  query: string;
+function getSearchInput(): HTMLInputElement {
+  return document.getElementById('search-input') as HTMLInputElement;
 }
 
-export interface ViewRecipeArgs {
-  recipe_id: number;
+/**
+ * Gets the ID of the recipe open in the detail view.
+ * @returns The ID, or null if the recipe list is shown.
+ */
+export function getOpenRecipeId(): number | null {
+  const openTitle = document
+    .querySelector('#recipe-detail-view:not(.hidden) h2')
+    ?.textContent?.trim();
+  return recipes.find((recipe) => recipe.title === openTitle)?.id ?? null;
 }
 
-export interface GetRecipeDetailsArgs {
-  recipe_id: number;
+function getRecipeTitle(recipeId: number): string {
+  return getRecipe(recipeId)?.title ?? `recipe ${recipeId}`;
 }
 
-export interface MarkAsFavoriteArgs {
-  recipe_id: number;
-  is_favorite: boolean;
+/**
+ * Re-renders the recipe list for the current search, and the favorites.
+ */
+function refreshRecipeLists(): void {
+  const currentSearch = getSearchInput().value;
+  const recipesToRender = currentSearch
+    ? searchRecipesAPI(currentSearch)
+    : recipes;
+  renderRecipeList(recipesToRender);
+  renderFavorites();
 }
 
-export interface SetDarkModeArgs {
-  enabled: boolean;
+function showSearch(query: string): void {
+  renderRecipeList(query ? searchRecipesAPI(query) : recipes);
+  getSearchInput().value = query;
 }
 
-export interface SetFontSizeArgs {
-  factor: number;
+function showRecipeOrList(recipeId: number | null): void {
+  if (recipeId === null) {
+    showRecipeListView();
+  } else {
+    viewRecipe(recipeId);
+  }
 }
 
-// --- Function Declarations ---
+// --- Tools ---
 
-export const searchRecipesDeclaration: FunctionDeclaration = {
+export const searchRecipesTool = defineTool({
   name: 'search_recipes',
   description:
     'Searches for recipes based on a query string and displays the results.',
@@ -75,9 +99,58 @@ export const searchRecipesDeclaration: FunctionDeclaration = {
     },
     required: ['query'],
   },
-};
+  task: 'Searches for recipes by a keyword or phrase.',
+  examples: [
+    'Find recipes with chicken',
+    'Search for pasta dishes',
+    'Show me some desserts',
+  ],
+  handler: async ({query}) => {
+    const previousQuery = getSearchInput().value;
+    const results = searchRecipesAPI(query);
+    renderRecipeList(results);
+    getSearchInput().value = query;
+    undoStack.record({
+      description: `searching for "${query}"`,
+      undo: () => showSearch(previousQuery),
+      redo: () => showSearch(query),
+    });
+    return `Searched for "${query}" and found ${results.length} recipes.`;
+  },
+});
 
-export const viewRecipeDeclaration: FunctionDeclaration = {
+export const listRecipesTool = defineTool({
+  name: 'list_recipes',
+  description:
+    "Returns a list of the recipe titles and IDs currently visible in the main recipe list. Useful for getting context of what's on screen.",
+  task: "Lists the recipes currently visible on the screen to understand the context. This should be used before viewing a recipe if the user's query is ambiguous (e.g., 'open the first one').",
+  examples: [
+    'What recipes are shown right now?',
+    "What's on the screen?",
+    'List the current recipes',
+  ],
+  mutates: false,
+  handler: async () => {
+    const recipeElements = document.querySelectorAll('#recipe-list > div');
+    if (recipeElements.length === 0) {
+      return 'No recipes are currently listed on the screen.';
+    }
+    const recipeData = Array.from(recipeElements)
+      .map((card) => {
+        const id = (card as HTMLElement).dataset.recipeId;
+        const title = card.querySelector('h3')?.textContent;
+        if (id && title) {
+          return {id: parseInt(id, 10), title};
+        }
+        return null;
+      })
+      .filter(Boolean); // Filter out any nulls if card structure is wrong
+
+    return recipeData;
+  },
+});
+
+export const viewRecipeTool = defineTool({
   name: 'view_recipe',
   description: 'Displays the detailed view for a specific recipe by its ID.',
   parameters: {
@@ -90,28 +163,27 @@ export const viewRecipeDeclaration: FunctionDeclaration = {
     },
     required: ['recipe_id'],
   },
-};
-
-export const listRecipesDeclaration: FunctionDeclaration = {
-  name: 'list_recipes',
-  description:
-    "Returns a list of the recipe titles and IDs currently visible in the main recipe list. Useful for getting context of what's on screen.",
-  parameters: {
-    type: SchemaType.OBJECT,
-    properties: {},
-  },
-};
-
-export const listFavoritesDeclaration: FunctionDeclaration = {
-  name: 'list_favorites',
-  description: "Returns a list of the user's favorite recipes.",
-  parameters: {
-    type: SchemaType.OBJECT,
-    properties: {},
+  task: 'Displays the detailed view for a specific recipe.',
+  examples: [
+    'Show me how to make the Classic Pancakes',
+    'Open recipe ID 7',
+    "Let's look at the first one",
+  ],
+  handler: async ({recipe_id}) => {
+    const previousRecipeId = getOpenRecipeId();
+    viewRecipe(recipe_id);
+    if (getRecipe(recipe_id) && previousRecipeId !== recipe_id) {
+      undoStack.record({
+        description: `opening ${getRecipeTitle(recipe_id)}`,
+        undo: () => showRecipeOrList(previousRecipeId),
+        redo: () => viewRecipe(recipe_id),
+      });
+    }
+    return `Displaying details for recipe ID ${recipe_id}.`;
   },
-};
+});
 
-export const getRecipeDetailsDeclaration: FunctionDeclaration = {
+export const getRecipeDetailsTool = defineTool({
   name: 'get_recipe_details',
   description:
     "Retrieves the full details of a single recipe by its ID without changing the user's view. Useful for answering questions about a specific recipe.",
@@ -125,9 +197,25 @@ export const getRecipeDetailsDeclaration: FunctionDeclaration = {
     },
     required: ['recipe_id'],
   },
-};
+  task: 'Gets the details (like ingredients or country) for a specific recipe without navigating away from the current view. Useful for answering specific questions.',
+  examples: [
+    'What are the ingredients for the Guacamole?',
+    'Where is the Beef Tacos recipe from?',
+    'Tell me more about recipe 14',
+  ],
+  mutates: false,
+  handler: async ({recipe_id}) => {
+    const recipe = getRecipe(recipe_id);
+    if (!recipe) {
+      return `Recipe with ID ${recipe_id} not found.`;
+    }
+    // Return a serializable subset of details to avoid overwhelming the context
+    const {title, description, ingredients, food_country, keywords} = recipe;
+    return {title, description, ingredients, food_country, keywords};
+  },
+});
 
-export const markAsFavoriteDeclaration: FunctionDeclaration = {
+export const markAsFavoriteTool = defineTool({
   name: 'mark_as_favorite',
   description: 'Marks or unmarks a recipe as a favorite.',
   parameters: {
@@ -144,9 +232,80 @@ export const markAsFavoriteDeclaration: FunctionDeclaration = {
     },
     required: ['recipe_id', 'is_favorite'],
   },
-};
+  task: 'Adds or removes a recipe from the user’s favorites list.',
+  examples: [
+    'Add the pancake recipe to my favorites',
+    'Save this recipe',
+    'Remove the burger from my favorites',
+    'Unfavorite the pasta',
+  ],
+  // Removing is easy to trigger by a misheard transcript and loses data
+  confirmation: ({recipe_id, is_favorite}) =>
+    is_favorite ? null : `Remove ${getRecipeTitle(recipe_id)} from favorites?`,
+  handler: async ({recipe_id, is_favorite}) => {
+    const wasFavorite = favorites.includes(recipe_id);
+    markAsFavorite(recipe_id, is_favorite);
+    // Re-render lists to reflect the change visually (e.g., heart icon)
+    refreshRecipeLists();
+    if (wasFavorite !== is_favorite) {
+      const title = getRecipeTitle(recipe_id);
+      undoStack.record({
+        description: is_favorite
+          ? `adding ${title} to favorites`
+          : `removing ${title} from favorites`,
+        undo: () => {
+          markAsFavorite(recipe_id, wasFavorite);
+          refreshRecipeLists();
+        },
+        redo: () => {
+          markAsFavorite(recipe_id, is_favorite);
+          refreshRecipeLists();
+        },
+      });
+    }
+    return `Recipe ${recipe_id} has been ${
+      is_favorite ? 'added to' : 'removed from'
+    } favorites.`;
+  },
+});
 
-export const setDarkModeDeclaration: FunctionDeclaration = {
+export const listFavoritesTool = defineTool({
+  name: 'list_favorites',
+  description: "Returns a list of the user's favorite recipes.",
+  task: "Retrieves the user's list of saved favorite recipes.",
+  examples: [
+    "What's in my favorites?",
+    'Show me my saved recipes',
+    'List my favorites',
+  ],
+  mutates: false,
+  handler: async () =>
+    recipes
+      .filter((r) => favorites.includes(r.id))
+      .map((r) => ({id: r.id, title: r.title})),
+});
+
+export const goBackToListTool = defineTool({
+  name: 'go_back_to_list',
+  description:
+    'Navigates from the recipe detail view back to the main recipe list.',
+  task: 'Navigates from a recipe detail page back to the main list.',
+  examples: ['Go back to the list', 'Show all recipes again'],
+  handler: async () => {
+    const previousRecipeId = getOpenRecipeId();
+    showRecipeListView();
+    if (previousRecipeId !== null) {
+      undoStack.record({
+        description: 'going back to the recipe list',
+        undo: () => viewRecipe(previousRecipeId),
+        redo: () => showRecipeListView(),
+      });
+    }
+    return 'Returned to the main recipe list view.';
+  },
+});
+
+export const setDarkModeTool = defineTool({
   name: 'set_dark_mode',
   description: 'Enables or disables dark mode for the application UI.',
   parameters: {
@@ -160,9 +319,27 @@ export const setDarkModeDeclaration: FunctionDeclaration = {
     },
     required: ['enabled'],
   },
-};
+  task: 'Toggles the user interface between light and dark themes.',
+  examples: [
+    'Enable dark mode',
+    'Switch to light theme',
+    "It's too bright in here",
+  ],
+  handler: async ({enabled}) => {
+    const wasDark = document.documentElement.classList.contains('dark');
+    setDarkMode(enabled);
+    if (wasDark !== enabled) {
+      undoStack.record({
+        description: `turning ${enabled ? 'on' : 'off'} dark mode`,
+        undo: () => setDarkMode(wasDark),
+        redo: () => setDarkMode(enabled),
+      });
+    }
+    return `Dark mode has been ${enabled ? 'enabled' : 'disabled'}.`;
+  },
+});
 
-export const setFontSizeDeclaration: FunctionDeclaration = {
+export const setFontSizeTool = defineTool({
   name: 'set_font_size',
   description:
     'Adjusts the application font size by a multiplier. The factor should be between 0.5 (smaller) and 2.0 (larger). A factor of 1.1 would be a 10% increase.',
@@ -173,152 +350,92 @@ export const setFontSizeDeclaration: FunctionDeclaration = {
         type: SchemaType.NUMBER,
         description:
           'The multiplication factor for the font size. E.g., 1.2 for a 20% increase.',
+        minimum: 0.5,
+        maximum: 2.0,
       },
     },
     required: ['factor'],
   },
-};
+  task: 'Adjusts the font size of the application.',
+  examples: [
+    'Make the text bigger',
+    'Increase the font size a little',
+    'I can’t read this, make it 50% larger',
+    'Decrease the text size',
+  ],
+  handler: async ({factor}) => {
+    if (factor < 0.5 || factor > 2.0) {
+      return 'Error: Font size factor must be between 0.5 and 2.0.';
+    }
+    const previousSize = currentFontSize;
+    setFontSizeFactor(factor);
+    const newSize = currentFontSize;
+    if (newSize !== previousSize) {
+      // Restore exact sizes, as scaling back by a factor may be rounded, or
+      // be out of the factor's range after a large change
+      undoStack.record({
+        description: `making the text ${factor > 1 ? 'bigger' : 'smaller'}`,
+        undo: () => setBaseFontSize(previousSize),
+        redo: () => setBaseFontSize(newSize),
+      });
+    }
+    return `Font size adjusted by a factor of ${factor}.`;
+  },
+});
 
-export const goBackToListDeclaration: FunctionDeclaration = {
-  name: 'go_back_to_list',
+export const undoLastActionTool = defineTool({
+  name: 'undo_last_action',
   description:
-    'Navigates from the recipe detail view back to the main recipe list.',
-  parameters: {
-    type: SchemaType.OBJECT,
-    properties: {},
+    'Undoes the most recent action taken through these tools, such as opening a recipe, changing a favorite, the theme or the font size. Use it when the user says that was not what they meant.',
+  task: 'Undoes the last action taken for the user, e.g. when they say it was not what they meant.',
+  examples: [
+    'Undo that',
+    "That's not what I meant",
+    'Put it back the way it was',
+  ],
+  handler: async () => {
+    const action = await undoStack.undo();
+    return action
+      ? `Undid ${action.description}.`
+      : 'There is nothing to undo.';
   },
-};
-
-// --- Tool Implementations ---
-
-export async function search_recipes(args: SearchRecipesArgs): Promise<string> {
-  const results = searchRecipesAPI(args.query);
-  renderRecipeList(results);
-  (document.getElementById('search-input') as HTMLInputElement).value =
-    args.query;
-  return `Searched for "${args.query}" and found ${results.length} recipes.`;
-}
-
-export async function view_recipe(args: ViewRecipeArgs): Promise<string> {
-  viewRecipe(args.recipe_id);
-  return `Displaying details for recipe ID ${args.recipe_id}.`;
-}
-
-export async function list_recipes(): Promise<object | string> {
-  const recipeElements = document.querySelectorAll('#recipe-list > div');
-  if (recipeElements.length === 0) {
-    return 'No recipes are currently listed on the screen.';
-  }
-  const recipeData = Array.from(recipeElements)
-    .map((card) => {
-      const id = (card as HTMLElement).dataset.recipeId;
-      const title = card.querySelector('h3')?.textContent;
-      if (id && title) {
-        return {id: parseInt(id, 10), title};
-      }
-      return null;
-    })
-    .filter(Boolean); // Filter out any nulls if card structure is wrong
-
-  return recipeData;
-}
-
-export async function list_favorites(): Promise<object> {
-  const favoriteRecipes = recipes
-    .filter((r) => favorites.includes(r.id))
-    .map((r) => ({id: r.id, title: r.title}));
-  return favoriteRecipes;
-}
-
-export async function get_recipe_details(
-  args: GetRecipeDetailsArgs,
-): Promise<object | string> {
-  const recipe = getRecipe(args.recipe_id);
-  if (!recipe) {
-    return `Recipe with ID ${args.recipe_id} not found.`;
-  }
-  // Return a serializable subset of details to avoid overwhelming the context
-  const {title, description, ingredients, food_country, keywords} = recipe;
-  return {title, description, ingredients, food_country, keywords};
-}
-
-export async function mark_as_favorite(
-  args: MarkAsFavoriteArgs,
-): Promise<string> {
-  markAsFavorite(args.recipe_id, args.is_favorite);
-  // Re-render lists to reflect the change visually (e.g., heart icon)
-  const currentSearch = (
-    document.getElementById('search-input') as HTMLInputElement
-  ).value;
-  const recipesToRender = currentSearch
-    ? searchRecipesAPI(currentSearch)
-    : recipes;
-  renderRecipeList(recipesToRender);
-  renderFavorites();
-  return `Recipe ${args.recipe_id} has been ${
-    args.is_favorite ? 'added to' : 'removed from'
-  } favorites.`;
-}
-
-export async function set_dark_mode(args: SetDarkModeArgs): Promise<string> {
-  setDarkMode(args.enabled);
-  return `Dark mode has been ${args.enabled ? 'enabled' : 'disabled'}.`;
-}
-
-export async function set_font_size(args: SetFontSizeArgs): Promise<string> {
-  if (args.factor < 0.5 || args.factor > 2.0) {
-    return 'Error: Font size factor must be between 0.5 and 2.0.';
-  }
-  setFontSizeFactor(args.factor);
-  return `Font size adjusted by a factor of ${args.factor}.`;
-}
-
-export async function go_back_to_list(): Promise<string> {
-  showRecipeListView();
-  return 'Returned to the main recipe list view.';
-}
-
-// --- Tool Call Handler ---
-
-export async function handleToolCall(
-  functionName: string,
-  args: any,
-): Promise<string | object | null> {
-  switch (functionName) {
-    case 'search_recipes':
-      return await search_recipes(args as SearchRecipesArgs);
-    case 'view_recipe':
-      return await view_recipe(args as ViewRecipeArgs);
-    case 'list_recipes':
-      return await list_recipes();
-    case 'list_favorites':
-      return await list_favorites();
-    case 'get_recipe_details':
-      return await get_recipe_details(args as GetRecipeDetailsArgs);
-    case 'mark_as_favorite':
-      return await mark_as_favorite(args as MarkAsFavoriteArgs);
-    case 'set_dark_mode':
-      return await set_dark_mode(args as SetDarkModeArgs);
-    case 'set_font_size':
-      return await set_font_size(args as SetFontSizeArgs);
-    case 'go_back_to_list':
-      return await go_back_to_list();
-    default:
-      console.error(`Error: Function ${functionName} not found.`);
-      return `Error: Tool ${functionName} is not available.`;
-  }
-}
-
-// --- Export All Declarations ---
-
-export const functionDeclarations: FunctionDeclaration[] = [
-  searchRecipesDeclaration,
-  viewRecipeDeclaration,
-  listRecipesDeclaration,
-  listFavoritesDeclaration,
-  getRecipeDetailsDeclaration,
-  markAsFavoriteDeclaration,
-  setDarkModeDeclaration,
-  setFontSizeDeclaration,
-  goBackToListDeclaration,
+});
+
+export const redoActionTool = defineTool({
+  name: 'redo_action',
+  description: 'Performs the most recently undone action again.',
+  task: 'Performs the last undone action again.',
+  examples: ['Redo that', 'Actually, do it again'],
+  handler: async () => {
+    const action = await undoStack.redo();
+    return action
+      ? `Redid ${action.description}.`
+      : 'There is nothing to redo.';
+  },
+});
+
+// --- Tool Argument Types ---
+
+export type SearchRecipesArgs = ToolArgs<typeof searchRecipesTool>;
+export type ViewRecipeArgs = ToolArgs<typeof viewRecipeTool>;
+export type GetRecipeDetailsArgs = ToolArgs<typeof getRecipeDetailsTool>;
+export type MarkAsFavoriteArgs = ToolArgs<typeof markAsFavoriteTool>;
+export type SetDarkModeArgs = ToolArgs<typeof setDarkModeTool>;
+export type SetFontSizeArgs = ToolArgs<typeof setFontSizeTool>;
+
+// --- Export All Tools ---
+
+// In the order of the tasks in the system prompt
+export const recipeBookTools: RegisteredTool[] = [
+  searchRecipesTool,
+  listRecipesTool,
+  viewRecipeTool,
+  getRecipeDetailsTool,
+  markAsFavoriteTool,
+  listFavoritesTool,
+  goBackToListTool,
+  setDarkModeTool,
+  setFontSizeTool,
+  undoLastActionTool,
+  redoActionTool,
 ];
@@ -0,0 +1,230 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  Content,
+  FunctionResponse,
+  FunctionResponsePart,
+} from '@google/generative-ai';
+import {GeminiClient} from './geminiClient';
+import {
+  LlmProvider,
+  LlmProviderFactory,
+  LlmResponse,
+  LlmSendOptions,
+  LlmTurnResult,
+} from './llmProvider';
+import {
+  stripTurnContext,
+  TurnContext,
+  TurnContextProvider,
+} from './turnContext';
+
+/**
+ * A conversation recorded by the ConversationRecorder, replayed offline by
+ * the ReplayProvider. Stored as JSON fixtures for regression tests.
+ */
+export interface ConversationRecording {
+  version: number;
+  turns: RecordedTurn[];
+}
+
+/**
+ * One user message and everything the agent did in response.
+ */
+export interface RecordedTurn {
+  /** The user's message, without the turn context. */
+  user: string;
+  /**
+   * The model's responses, in order: one per round of function calls, then
+   * the final answer.
+   */
+  responses: RecordedResponse[];
+  /** What the agent said at the end of the turn. */
+  spoken: string;
+  /** The app's state once the turn was done, if a state provider was given. */
+  state?: TurnContext;
+}
+
+export interface RecordedResponse extends LlmResponse {
+  /** What the tools returned for the response's function calls, if any. */
+  toolResults?: FunctionResponse[];
+}
+
+export const RECORDING_VERSION = 1;
+
+/**
+ * Records the exchanges between a GeminiClient and its model: the user's
+ * messages, the model's function calls and answers, the tools' results, and
+ * what the agent said. The recording can be exported as a fixture for the
+ * ReplayProvider.
+ *
+ * Usage: create the client with `recorder.wrap(createProvider)` as its
+ * provider factory, then call `recorder.attach(client)`.
+ */
+export class ConversationRecorder {
+  private turns: RecordedTurn[] = [];
+  // The turn in flight, added to the recording once the client completes it
+  private currentTurn: RecordedTurn | null = null;
+
+  /**
+   * @param getState Snapshots the app's state after each turn, e.g.
+   *     getRecipeBookState, so that replays can check it.
+   */
+  constructor(private readonly getState?: TurnContextProvider) {}
+
+  /**
+   * Wraps a provider factory so that every provider it creates is recorded.
+   */
+  wrap(createProvider: LlmProviderFactory): LlmProviderFactory {
+    return (options) => new RecordingProvider(createProvider(options), this);
+  }
+
+  /**
+   * Completes turns from the client's events. Failed, cancelled and timed
+   * out turns are left out of the recording.
+   * @returns A function that detaches the recorder.
+   */
+  attach(client: GeminiClient): () => void {
+    const onComplete = (payload: {text: string | null}) => {
+      if (payload.text === null) {
+        this.currentTurn = null;
+      } else {
+        this.completeTurn(payload.text);
+      }
+    };
+    const onAbandoned = () => {
+      this.currentTurn = null;
+    };
+    client.on('responseComplete', onComplete);
+    client.on('cancelled', onAbandoned);
+    client.on('timeout', onAbandoned);
+    return () => {
+      client.off('responseComplete', onComplete);
+      client.off('cancelled', onAbandoned);
+      client.off('timeout', onAbandoned);
+    };
+  }
+
+  getRecording(): ConversationRecording {
+    return {
+      version: RECORDING_VERSION,
+      turns: structuredClone(this.turns),
+    };
+  }
+
+  /**
+   * Serializes the recording, to be saved as a fixture.
+   */
+  export(): string {
+    return JSON.stringify(this.getRecording(), null, 2);
+  }
+
+  clear(): void {
+    this.turns = [];
+    this.currentTurn = null;
+  }
+
+  /** Called by the RecordingProvider when a user message is sent. */
+  startTurn(message: string): void {
+    this.currentTurn = {
+      user: stripTurnContext(message),
+      responses: [],
+      spoken: '',
+    };
+  }
+
+  /** Called by the RecordingProvider with every model response. */
+  recordResponse(response: LlmResponse): void {
+    this.currentTurn?.responses.push({
+      text: response.text,
+      functionCalls: response.functionCalls,
+    });
+  }
+
+  /** Called by the RecordingProvider when the tools' results are sent. */
+  recordToolResults(responses: FunctionResponsePart[]): void {
+    const recorded = this.currentTurn?.responses ?? [];
+    const last = recorded[recorded.length - 1];
+    if (last) {
+      last.toolResults = responses.map((part) => part.functionResponse);
+    }
+  }
+
+  private completeTurn(spoken: string): void {
+    const turn = this.currentTurn;
+    if (!turn) return;
+    this.currentTurn = null;
+    turn.spoken = spoken;
+    if (this.getState) {
+      try {
+        turn.state = this.getState() ?? undefined;
+      } catch (error) {
+        console.warn('Failed to record the app state:', error);
+      }
+    }
+    this.turns.push(structuredClone(turn));
+  }
+}
+
+/**
+ * Passes everything through to the wrapped provider, reporting the
+ * exchanges to the recorder.
+ */
+class RecordingProvider implements LlmProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly provider: LlmProvider,
+    private readonly recorder: ConversationRecorder,
+  ) {
+    this.name = provider.name;
+  }
+
+  startChat(history?: Content[]): void {
+    this.provider.startChat(history);
+  }
+
+  async sendMessage(
+    message: string,
+    options?: LlmSendOptions,
+  ): Promise<LlmTurnResult> {
+    this.recorder.startTurn(message);
+    return this.record(await this.provider.sendMessage(message, options));
+  }
+
+  async sendFunctionResponses(
+    responses: FunctionResponsePart[],
+    options?: LlmSendOptions,
+  ): Promise<LlmTurnResult> {
+    this.recorder.recordToolResults(responses);
+    return this.record(
+      await this.provider.sendFunctionResponses(responses, options),
+    );
+  }
+
+  getHistory(): Promise<Content[]> {
+    return this.provider.getHistory();
+  }
+
+  private record(result: LlmTurnResult): LlmTurnResult {
+    const response = result.response.then((response) => {
+      this.recorder.recordResponse(response);
+      return response;
+    });
+    // As with the provider's own, the client may abandon it if the stream fails
+    response.catch(() => {});
+    return {stream: result.stream, response};
+  }
+}
@@ -0,0 +1,150 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+} from '@google/generative-ai';
+import {RelayError} from './relayProvider';
+
+/**
+ * The kinds of failure a model call can end in.
+ * - 'offline': The browser reports no network connection.
+ * - 'network': The request failed to reach the server.
+ * - 'rateLimit': Too many requests or quota exhausted (HTTP 429).
+ * - 'auth': The API key or relay credentials were rejected (HTTP 401/403).
+ * - 'safety': The response was blocked by safety filters.
+ * - 'server': The server failed (HTTP 5xx).
+ * - 'invalidResponse': The response could not be understood.
+ * - 'unknown': Anything else.
+ */
+export type LlmErrorKind =
+  | 'offline'
+  | 'network'
+  | 'rateLimit'
+  | 'auth'
+  | 'safety'
+  | 'server'
+  | 'invalidResponse'
+  | 'unknown';
+
+/** Kinds that are likely to succeed if the same request is sent again. */
+const RETRYABLE_KINDS: LlmErrorKind[] = ['network', 'rateLimit', 'server'];
+
+/**
+ * Messages for the user, written to be spoken.
+ */
+const USER_MESSAGES: Record<LlmErrorKind, string> = {
+  offline:
+    'You are offline. I will be able to help again once you are connected.',
+  network: 'I could not reach the server. Please check your connection.',
+  rateLimit:
+    'I am getting too many requests right now. Please wait a moment and try again.',
+  auth: 'I am not authorized to use the assistant service. Please check the API key.',
+  safety:
+    'I cannot answer that request. Please try asking in a different way.',
+  server: 'The assistant service is having problems. Please try again later.',
+  invalidResponse: 'I got a response I could not understand. Please try again.',
+  unknown: 'Something went wrong. Please try again.',
+};
+
+/**
+ * An error from a model call, classified so that it can be retried or
+ * explained to the user.
+ */
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    readonly kind: LlmErrorKind,
+    readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+
+  /** Whether sending the same request again may succeed. */
+  get isRetryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  /** A short explanation for the user, suitable for speaking. */
+  get userMessage(): string {
+    return getUserMessage(this.kind);
+  }
+}
+
+/**
+ * Gets the explanation for the user of a kind of error.
+ */
+export function getUserMessage(kind: LlmErrorKind): string {
+  return USER_MESSAGES[kind];
+}
+
+/**
+ * Classifies any error thrown by a provider.
+ * @param error The thrown value.
+ * @returns The error as an LlmError; LlmErrors are returned unchanged.
+ */
+export function classifyError(error: unknown): LlmError {
+  if (error instanceof LlmError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return new LlmError(message, 'offline', error);
+  }
+
+  const status =
+    error instanceof GoogleGenerativeAIFetchError ||
+    error instanceof RelayError
+      ? error.status
+      : undefined;
+  if (status !== undefined) {
+    if (status === 429) return new LlmError(message, 'rateLimit', error);
+    if (status === 401 || status === 403) {
+      return new LlmError(message, 'auth', error);
+    }
+    if (status >= 500) return new LlmError(message, 'server', error);
+  }
+
+  // Safety blocks surface as response errors from the SDK, or only as their
+  // message when relayed
+  if (/\bblocked\b/i.test(message)) {
+    return new LlmError(message, 'safety', error);
+  }
+  if (error instanceof GoogleGenerativeAIResponseError) {
+    return new LlmError(message, 'invalidResponse', error);
+  }
+  if (/\b(API key|PERMISSION_DENIED|UNAUTHENTICATED)\b/i.test(message)) {
+    return new LlmError(message, 'auth', error);
+  }
+  if (/\b(RESOURCE_EXHAUSTED|quota)\b/i.test(message)) {
+    return new LlmError(message, 'rateLimit', error);
+  }
+  // The wording of fetch() network failures differs between browsers
+  if (
+    /failed to fetch|fetch failed|networkerror|load failed|network request failed/i.test(
+      message,
+    )
+  ) {
+    return new LlmError(message, 'network', error);
+  }
+  if (
+    /invalid (response|stream)|not valid JSON|Unexpected token/i.test(message)
+  ) {
+    return new LlmError(message, 'invalidResponse', error);
+  }
+  return new LlmError(message, 'unknown', error);
+}
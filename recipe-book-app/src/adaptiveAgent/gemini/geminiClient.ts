@@ -13,20 +13,19 @@
 // limitations under the License.
 
 import {
-  ChatSession,
-  EnhancedGenerateContentResponse,
+  Content,
   FunctionCall,
   FunctionDeclaration,
-  GenerateContentResponse,
-  GenerateContentResult,
-  GenerativeModel,
-  GoogleGenerativeAI,
-  HarmBlockThreshold,
-  HarmCategory,
-  Part,
+  FunctionResponsePart,
 } from '@google/generative-ai';
 import EventEmitter from 'eventemitter3';
 import {GeminiClientConfig} from '../config/agentConfig';
+import {ToolRegistry} from '../config/toolRegistry';
+import {classifyError, LlmError} from './errors';
+import {compactHistory} from './historyCompaction';
+import {LlmProvider, LlmTurnResult} from './llmProvider';
+import {addTurnContext} from './turnContext';
+import {validateToolArgs} from './toolValidation';
 
 /**
  * Defines the events emitted by the GeminiClient.
@@ -38,57 +37,183 @@ export type GeminiClientEvent =
   | 'responseComplete'
   | 'functionCallRequested'
   | 'functionCallCompleted'
+  | 'functionCallDeclined'
+  | 'toolRound'
+  | 'toolLoopStopped'
+  | 'historyCompacted'
+  | 'cancelled'
+  | 'timeout'
+  | 'retrying'
   | 'error';
 
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_INITIAL_RETRY_DELAY_MS = 500;
+const DEFAULT_MAX_RETRY_DELAY_MS = 8000;
+const DEFAULT_MAX_TOOL_ROUNDS = 5;
+const DECLINED_RESULT = 'The user declined this action, so it was not done.';
+const TOOL_LOOP_MESSAGE =
+  'Sorry, I got stuck trying to do that, so I stopped. Please try asking in a different way.';
+
+/**
+ * The payload of the `responseComplete` event for a successful turn.
+ */
+interface TurnCompletion {
+  text: string;
+  streamed?: boolean;
+}
+
+/**
+ * A handle to a user turn, returned by sendMessage().
+ */
+export interface TurnHandle {
+  /** Increases with every turn. */
+  readonly id: number;
+  /** Aborted when the turn is cancelled, times out or the client is destroyed. */
+  readonly signal: AbortSignal;
+  /**
+   * Cancels the turn if it is still in flight.
+   * @returns True if the turn was cancelled.
+   */
+  cancel(): boolean;
+  /** Resolves once the turn has completed, failed, been cancelled or timed out. */
+  readonly done: Promise<void>;
+}
+
+/**
+ * The payload of the `toolRound` event: one batch of function calls
+ * requested by the model, and what they returned.
+ */
+export interface ToolRound {
+  /** Starts at 1 for every user turn. */
+  round: number;
+  calls: FunctionCall[];
+  results: FunctionResponsePart[];
+}
+
+/**
+ * Why a turn's function call loop was stopped.
+ * - 'maxToolRounds': The model asked for more rounds than allowed.
+ * - 'repeatedCalls': The model asked for the same calls as in the previous
+ *   round, which would loop forever.
+ */
+export type ToolLoopStopReason = 'maxToolRounds' | 'repeatedCalls';
+
+/**
+ * A user turn in flight, from the message to the final response.
+ */
+interface Turn {
+  id: number;
+  abortController: AbortController;
+  timeoutId: ReturnType<typeof setTimeout> | null;
+  /** Function call rounds executed so far. */
+  toolRounds: number;
+  /** Identifies the calls of the last round, to detect repeats. */
+  lastRoundKey: string | null;
+}
+
 /**
- * A client for interacting with the Gemini API.
- * It handles the initialization of the API, chat sessions,
- * sending messages, handling function calls, and emitting events.
+ * Thrown inside a turn once it has been cancelled, to unwind it silently.
+ */
+class TurnCancelledError extends Error {
+  constructor() {
+    super('Turn cancelled.');
+    this.name = 'TurnCancelledError';
+  }
+}
+
+/**
+ * Thrown inside a turn when the model keeps requesting function calls.
+ */
+class ToolLoopError extends Error {
+  constructor(
+    readonly reason: ToolLoopStopReason,
+    readonly rounds: number,
+  ) {
+    super(`Function call loop stopped (${reason}) after ${rounds} round(s).`);
+    this.name = 'ToolLoopError';
+  }
+}
+
+/**
+ * A client for interacting with the Gemini API, or any other LlmProvider.
+ * It handles the initialization of the chat session, sending messages,
+ * handling function calls, and emitting events.
  */
 export class GeminiClient extends EventEmitter<GeminiClientEvent> {
-  private generativeAI: GoogleGenerativeAI;
-  private model: GenerativeModel;
-  private chat: ChatSession | null = null;
+  private provider: LlmProvider;
+  private isChatInitialized = false;
   private config: GeminiClientConfig;
-  private systemInstruction: string;
-
-  // Generation configuration (same as before)
-  private generationConfig = {
-    temperature: 0.5,
-  };
+  private systemInstruction = '';
+  // Set when the prompt or tools changed; applied at the start of the next turn
+  private promptChanged = false;
+  private declarations = new Map<string, FunctionDeclaration>();
+  // Text streamed so far in the current user turn (across function call rounds)
+  private streamedText = '';
+  private activeTurn: Turn | null = null;
+  private lastTurnId = 0;
+  private isDestroyed = false;
+  // History as of the last completed turn, restored when a turn is cancelled
+  private committedHistory: Content[] = [];
 
   constructor(config: GeminiClientConfig) {
     super();
     this.config = config;
-    this.generativeAI = new GoogleGenerativeAI(config.apiKey);
-    this.systemInstruction = config.systemInstructionsFactory.createPrompt();
-
-    this.model = this.generativeAI.getGenerativeModel({
-      model: config.modelName || 'gemini-2.5-flash',
-      systemInstruction: this.systemInstruction,
-      tools: config.toolsConfig?.functionDeclarations?.length
-        ? [{functionDeclarations: config.toolsConfig.functionDeclarations}]
-        : undefined,
-      generationConfig: this.generationConfig,
-    });
+    this.provider = this.createProvider();
+    if (config.toolsConfig instanceof ToolRegistry) {
+      config.toolsConfig.on('change', this.handleToolsChanged);
+    }
+    console.log('GeminiClient initialized with provider:', this.provider.name);
+  }
 
-    console.log('GeminiClient initialized with model:', this.model.model);
-    if (config.toolsConfig?.functionDeclarations?.length) {
+  /**
+   * Builds the system prompt and creates the provider for the current tools.
+   */
+  private createProvider(): LlmProvider {
+    const functionDeclarations =
+      this.config.toolsConfig?.functionDeclarations ?? [];
+    this.systemInstruction =
+      this.config.systemInstructionsFactory.createPrompt();
+    this.declarations.clear();
+    for (const declaration of functionDeclarations) {
+      this.declarations.set(declaration.name, declaration);
+    }
+    if (functionDeclarations.length) {
       console.log(
         'Tools configured:',
-        config.toolsConfig.functionDeclarations.map((f) => f.name),
+        functionDeclarations.map((f) => f.name),
       );
     } else {
       console.log('No tools configured.');
     }
+    return this.config.createProvider({
+      systemInstruction: this.systemInstruction,
+      functionDeclarations,
+    });
   }
 
+  /**
+   * Rebuilds the system prompt and the tool declarations at the start of the
+   * next turn, e.g. after the user's preferences changed. The chat history
+   * is kept.
+   */
+  reloadSystemPrompt(): void {
+    this.promptChanged = true;
+  }
+
+  private handleToolsChanged = (): void => {
+    this.reloadSystemPrompt();
+  };
+
   /**
    * Starts the chat session. Must be called before sending messages.
+   * @param history Optional prior turns to restore.
    */
-  initializeChat(history: Part[] = []): void {
+  initializeChat(history: Content[] = []): void {
     try {
-      this.chat = this.model.startChat({history});
+      this.provider.startChat(history);
+      this.committedHistory = [...history];
+      this.isChatInitialized = true;
       console.log('Gemini chat session initialized.');
       this.emit('chatInitialized');
     } catch (error) {
@@ -100,141 +225,600 @@ export class GeminiClient extends EventEmitter<GeminiClientEvent> {
     }
   }
 
+  /**
+   * Gets the chat history so far, including function call turns.
+   */
+  getHistory(): Promise<Content[]> {
+    return this.provider.getHistory();
+  }
+
+  /**
+   * Checks if a turn is in flight.
+   */
+  isBusy(): boolean {
+    return this.activeTurn !== null;
+  }
+
   /**
    * Sends a user message to the Gemini model and handles the response,
-   * including function call loops.
+   * including function call loops. A turn still in flight is cancelled first.
+   * If no progress is made for `requestTimeoutMs`, the turn is abandoned and
+   * a `timeout` event is emitted.
    * @param userInput The text message from the user.
+   * @returns A handle to cancel or await the turn.
    */
-  async sendMessage(userInput: string): Promise<void> {
-    if (!this.chat) {
+  sendMessage(userInput: string): TurnHandle {
+    this.cancel();
+    const turn: Turn = {
+      id: ++this.lastTurnId,
+      abortController: new AbortController(),
+      timeoutId: null,
+      toolRounds: 0,
+      lastRoundKey: null,
+    };
+    // Providers that cannot abort may never settle; don't wait for them
+    const aborted = new Promise<void>((resolve) =>
+      turn.abortController.signal.addEventListener('abort', () => resolve(), {
+        once: true,
+      }),
+    );
+    const done = Promise.race([this.runTurn(turn, userInput), aborted]);
+    return {
+      id: turn.id,
+      signal: turn.abortController.signal,
+      cancel: () => this.cancelTurn(turn, 'cancelled'),
+      done,
+    };
+  }
+
+  /**
+   * Cancels the turn in flight, if any: aborts the request where the
+   * provider supports it, discards any late response, and restores the chat
+   * to the last completed turn. Tools that already ran are not undone.
+   * @returns True if a turn was cancelled.
+   */
+  cancel(): boolean {
+    return this.activeTurn
+      ? this.cancelTurn(this.activeTurn, 'cancelled')
+      : false;
+  }
+
+  private async runTurn(turn: Turn, userInput: string): Promise<void> {
+    if (this.isDestroyed) {
+      console.warn('GeminiClient has been destroyed; message ignored.');
+      return;
+    }
+    if (!this.isChatInitialized) {
       const errorMsg = 'Chat not initialized. Call initializeChat() first.';
       console.error(errorMsg);
       this.emit('error', {message: errorMsg});
       return;
     }
 
+    if (this.promptChanged) {
+      // A new provider is needed for the new prompt; the chat carries over
+      this.promptChanged = false;
+      this.provider = this.createProvider();
+      this.provider.startChat(this.committedHistory);
+    }
+    this.compactHistory();
+
+    this.activeTurn = turn;
+    this.armTimeout(turn);
     this.emit('thinking');
+    this.streamedText = '';
 
+    const message = this.withTurnContext(userInput);
     try {
-      await this.processApiResponse(await this.chat.sendMessage(userInput));
+      const completion = await this.sendAndProcess(turn, message);
+      const history = await this.provider.getHistory();
+      this.assertActive(turn);
+      this.committedHistory = [...history];
+      this.finishTurn(turn);
+      this.emit('responseComplete', completion);
     } catch (error) {
-      console.error('Error sending message or processing response:', error);
+      if (turn !== this.activeTurn) {
+        return; // Cancelled; late results and errors are discarded
+      }
+      this.finishTurn(turn);
+      if (error instanceof ToolLoopError) {
+        this.stopToolLoop(message, error);
+        return;
+      }
+      // A failed turn may leave e.g. a function call without its response
+      this.provider.startChat(this.committedHistory);
+      const llmError = classifyError(error);
+      console.error(
+        `Error sending message or processing response (${llmError.kind}):`,
+        error,
+      );
       this.emit('error', {
-        message: 'Failed to get response from Gemini.',
+        message: llmError.userMessage,
+        kind: llmError.kind,
         details: error,
       });
-      this.emit('responseComplete', {text: null, error});
+      this.emit('responseComplete', {text: null, error: llmError});
+    }
+  }
+
+  /**
+   * Compacts the history between turns once it exceeds the budget in
+   * `config.historyBudget`, so that long sessions don't get slower and more
+   * expensive with every message.
+   */
+  private compactHistory(): void {
+    const result = compactHistory(
+      this.committedHistory,
+      this.config.historyBudget,
+    );
+    if (!result) return;
+    this.committedHistory = result.history;
+    this.provider.startChat(this.committedHistory);
+    console.log(
+      `Compacted the chat history from ~${result.compaction.tokensBefore} to ~${result.compaction.tokensAfter} tokens.`,
+    );
+    this.emit('historyCompacted', result.compaction);
+  }
+
+  /**
+   * Prepends the app's current state to a user message, if the client has a
+   * `turnContext` provider. A failing provider doesn't fail the turn.
+   */
+  private withTurnContext(userInput: string): string {
+    const turnContext = this.config.turnContext;
+    if (!turnContext) return userInput;
+    try {
+      const context = turnContext.provider();
+      return context
+        ? addTurnContext(userInput, context, turnContext.maxChars)
+        : userInput;
+    } catch (error) {
+      console.warn('Failed to get the turn context:', error);
+      return userInput;
+    }
+  }
+
+  /**
+   * Ends a turn whose function call loop was stopped with a final message.
+   * The unanswered function calls are dropped from the history; the user
+   * message and the final message are kept, so the model knows that the
+   * request was not completed.
+   */
+  private stopToolLoop(message: string, error: ToolLoopError): void {
+    console.warn(error.message);
+    const history: Content[] = [
+      ...this.committedHistory,
+      {role: 'user', parts: [{text: message}]},
+      {role: 'model', parts: [{text: TOOL_LOOP_MESSAGE}]},
+    ];
+    this.provider.startChat(history);
+    this.committedHistory = history;
+    this.emit('toolLoopStopped', {reason: error.reason, rounds: error.rounds});
+    this.emit('responseComplete', {text: TOOL_LOOP_MESSAGE});
+  }
+
+  /**
+   * Ends a turn early. See cancel().
+   * @param reason Which event to emit: `cancelled` or `timeout`.
+   */
+  private cancelTurn(turn: Turn, reason: 'cancelled' | 'timeout'): boolean {
+    if (turn !== this.activeTurn) return false;
+    this.finishTurn(turn);
+    turn.abortController.abort();
+    this.provider.startChat(this.committedHistory);
+    if (reason === 'timeout') {
+      const timeoutMs = this.getTimeoutMs();
+      console.warn(`Gemini turn timed out after ${timeoutMs} ms.`);
+      this.emit('timeout', {timeoutMs});
+    } else {
+      console.log('Gemini turn cancelled.');
+      this.emit('cancelled');
+    }
+    return true;
+  }
+
+  private finishTurn(turn: Turn): void {
+    this.disarmTimeout(turn);
+    if (turn === this.activeTurn) {
+      this.activeTurn = null;
+    }
+  }
+
+  /**
+   * (Re)starts the turn's timeout. Called whenever the turn makes progress,
+   * so a long but steadily streaming response doesn't time out.
+   */
+  private armTimeout(turn: Turn): void {
+    this.disarmTimeout(turn);
+    const timeoutMs = this.getTimeoutMs();
+    if (timeoutMs > 0) {
+      turn.timeoutId = setTimeout(
+        () => this.cancelTurn(turn, 'timeout'),
+        timeoutMs,
+      );
+    }
+  }
+
+  private disarmTimeout(turn: Turn): void {
+    if (turn.timeoutId !== null) {
+      clearTimeout(turn.timeoutId);
+      turn.timeoutId = null;
+    }
+  }
+
+  private getTimeoutMs(): number {
+    return this.config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  }
+
+  /**
+   * Throws if the turn has been cancelled, so that nothing more is emitted
+   * or executed on its behalf.
+   */
+  private assertActive(turn: Turn): void {
+    if (turn !== this.activeTurn) {
+      throw new TurnCancelledError();
+    }
+  }
+
+  /**
+   * Sends a request to the provider and processes the response, streaming it
+   * when `streamResponses` is enabled in the config.
+   * @param turn The user turn the request belongs to.
+   * @param request The user text or the function response parts.
+   * @returns The final response of the turn.
+   */
+  private async sendAndProcess(
+    turn: Turn,
+    request: string | FunctionResponsePart[],
+  ): Promise<TurnCompletion> {
+    const options = {
+      stream: !!this.config.streamResponses,
+      signal: turn.abortController.signal,
+    };
+    const result = await this.sendWithRetry(turn, () =>
+      typeof request === 'string'
+        ? this.provider.sendMessage(request, options)
+        : this.provider.sendFunctionResponses(request, options),
+    );
+    this.assertActive(turn);
+    this.armTimeout(turn);
+    return this.processTurnResult(turn, result);
+  }
+
+  /**
+   * Calls the provider, retrying transient failures with exponential backoff
+   * and emitting `retrying` before each retry. Fails fast while offline.
+   * @param turn The user turn the request belongs to.
+   * @param send Sends the request to the provider.
+   * @throws LlmError once the retries are used up, or for other failures.
+   */
+  private async sendWithRetry(
+    turn: Turn,
+    send: () => Promise<LlmTurnResult>,
+  ): Promise<LlmTurnResult> {
+    const {
+      maxRetries = DEFAULT_MAX_RETRIES,
+      initialDelayMs = DEFAULT_INITIAL_RETRY_DELAY_MS,
+      maxDelayMs = DEFAULT_MAX_RETRY_DELAY_MS,
+    } = this.config.retry ?? {};
+
+    for (let attempt = 0; ; attempt++) {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        throw new LlmError('The browser is offline.', 'offline');
+      }
+      try {
+        return await send();
+      } catch (error) {
+        this.assertActive(turn);
+        const llmError = classifyError(error);
+        if (!llmError.isRetryable || attempt >= maxRetries) {
+          throw llmError;
+        }
+        // Jitter keeps many clients from retrying in lockstep
+        const delayMs = Math.min(
+          maxDelayMs,
+          initialDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5),
+        );
+        console.warn(
+          `Gemini request failed (${llmError.kind}); retry ${attempt + 1} of ${maxRetries} in ${Math.round(delayMs)} ms.`,
+        );
+        this.emit('retrying', {
+          attempt: attempt + 1,
+          delayMs,
+          kind: llmError.kind,
+        });
+        await this.wait(turn, delayMs);
+        this.assertActive(turn);
+        this.armTimeout(turn);
+      }
     }
   }
 
   /**
-   * Processes the API response, handling potential function calls recursively.
-   * @param result The result object from a sendMessage call.
+   * Waits for the given time, or until the turn is aborted.
    */
-  private async processApiResponse(
-    result: GenerateContentResult | undefined,
-  ): Promise<void> {
+  private wait(turn: Turn, delayMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(resolve, delayMs);
+      turn.abortController.signal.addEventListener(
+        'abort',
+        () => {
+          clearTimeout(timeoutId);
+          resolve();
+        },
+        {once: true},
+      );
+    });
+  }
+
+  /**
+   * Processes a turn result, handling potential function calls recursively.
+   * When streaming, a `responseChunk` event is emitted for every piece of text
+   * as it arrives. Function calls may arrive at any point in the stream; they
+   * are executed once the stream has finished.
+   * @param turn The user turn the result belongs to.
+   * @param result The result of a provider send call.
+   * @returns The final response of the turn.
+   */
+  private async processTurnResult(
+    turn: Turn,
+    result: LlmTurnResult,
+  ): Promise<TurnCompletion> {
     if (!result || !result.response) {
       throw new Error('Received invalid response from API');
     }
 
-    const response = result.response as EnhancedGenerateContentResponse;
-    const functionCalls = response.functionCalls();
+    if (this.config.streamResponses) {
+      for await (const chunk of result.stream) {
+        this.assertActive(turn);
+        this.armTimeout(turn);
+        if (chunk.text) {
+          this.streamedText += chunk.text;
+          this.emit('responseChunk', {text: chunk.text});
+        }
+      }
+    }
 
-    if (functionCalls && functionCalls.length > 0) {
-      await this.handleFunctionCalls(functionCalls);
+    const response = await result.response;
+    this.assertActive(turn);
+    if (response.functionCalls.length > 0) {
+      return this.handleFunctionCalls(turn, response.functionCalls);
+    } else if (this.config.streamResponses) {
+      console.log('Gemini Response (streamed):', this.streamedText);
+      return {text: this.streamedText, streamed: true};
     } else {
-      const text = response.text();
-      console.log('Gemini Response:', text);
-      this.emit('responseComplete', {text});
+      console.log('Gemini Response:', response.text);
+      return {text: response.text};
     }
   }
 
   /**
-   * Handles the execution of function calls requested by the model.
+   * Handles the execution of function calls requested by the model, and
+   * emits a `toolRound` event with the results. Each user turn may run at
+   * most `maxToolRounds` rounds, and a round that repeats the previous one
+   * is not run.
+   * @param turn The user turn the function calls belong to.
    * @param functionCalls An array of FunctionCall objects.
+   * @returns The final response of the turn.
+   * @throws ToolLoopError if the loop has to be stopped.
    */
   private async handleFunctionCalls(
+    turn: Turn,
     functionCalls: FunctionCall[],
-  ): Promise<void> {
-    if (!this.chat) {
-      throw new Error('Chat not initialized during function call handling.');
-    }
+  ): Promise<TurnCompletion> {
     if (!this.config.toolsConfig?.handleToolCall) {
       throw new Error('handleToolCall function is not configured.');
     }
 
+    const maxToolRounds = this.config.maxToolRounds ?? DEFAULT_MAX_TOOL_ROUNDS;
+    if (turn.toolRounds >= maxToolRounds) {
+      throw new ToolLoopError('maxToolRounds', turn.toolRounds);
+    }
+    const roundKey = JSON.stringify(
+      functionCalls.map((fc) => [fc.name, fc.args]),
+    );
+    if (roundKey === turn.lastRoundKey) {
+      throw new ToolLoopError('repeatedCalls', turn.toolRounds);
+    }
+    turn.toolRounds++;
+    turn.lastRoundKey = roundKey;
+
     console.log(
       `Gemini requested ${functionCalls.length} function call(s):`,
       functionCalls.map((fc) => fc.name),
     );
     this.emit('functionCallRequested', functionCalls);
 
-    const functionResponseParts: Part[] = [];
-
-    await Promise.all(
-      functionCalls.map(async (fc) => {
-        const functionName = fc.name;
-        const args = fc.args;
-
-        console.log(`Executing function: ${functionName} with args:`, args);
-        try {
-          const toolResult = await this.config.toolsConfig.handleToolCall(
-            functionName,
-            args,
-          );
-
-          // Always wrap the tool result in a standard object structure.
-          // The Gemini API requires the 'response' field to be a JSON object.
-          // This prevents errors when a tool returns a primitive (string) or an
-          // array, by ensuring the top-level payload is always an object.
-          const functionResponseData = {
-            result: toolResult,
-          };
-
-          functionResponseParts.push({
-            functionResponse: {
-              name: functionName,
-              response: functionResponseData,
-            },
-          });
-          this.emit('functionCallCompleted', {
-            name: functionName,
-            args,
-            result: functionResponseData,
-          });
-        } catch (error) {
-          console.error(`Error executing tool ${functionName}:`, error);
-          this.emit('error', {
-            message: `Error executing tool ${functionName}`,
-            details: error,
-          });
-          functionResponseParts.push({
-            functionResponse: {
-              name: functionName,
-              response: {
-                error: `Failed to execute tool: ${error instanceof Error ? error.message : String(error)}`,
-              },
-            },
-          });
+    // Tools that change the UI run one at a time in the order the model gave
+    // them, since later calls may depend on earlier ones (e.g. search, then
+    // open the first result). Consecutive read-only tools run in parallel.
+    const functionResponseParts: FunctionResponsePart[] = [];
+    let index = 0;
+    while (index < functionCalls.length) {
+      let end = index + 1;
+      if (this.isReadOnlyTool(functionCalls[index].name)) {
+        while (
+          end < functionCalls.length &&
+          this.isReadOnlyTool(functionCalls[end].name)
+        ) {
+          end++;
         }
-      }),
-    );
+      }
+      const parts = await Promise.all(
+        functionCalls
+          .slice(index, end)
+          .map((fc) => this.executeFunctionCall(turn, fc)),
+      );
+      functionResponseParts.push(...parts);
+      // Don't run the remaining tools of a cancelled turn
+      this.assertActive(turn);
+      index = end;
+    }
 
+    this.armTimeout(turn);
+    const toolRound: ToolRound = {
+      round: turn.toolRounds,
+      calls: functionCalls,
+      results: functionResponseParts,
+    };
+    this.emit('toolRound', toolRound);
     console.log(
       'Sending function responses back to Gemini:',
       functionResponseParts,
     );
-    const nextResult = await this.chat.sendMessage(functionResponseParts);
-    await this.processApiResponse(nextResult);
+    return this.sendAndProcess(turn, functionResponseParts);
+  }
+
+  /**
+   * Runs a single function call. Failures are reported to the model in the
+   * function response rather than thrown.
+   * @param turn The user turn the function call belongs to.
+   * @param fc The function call.
+   * @returns The function response to send back to the model.
+   */
+  private async executeFunctionCall(
+    turn: Turn,
+    fc: FunctionCall,
+  ): Promise<FunctionResponsePart> {
+    const functionName = fc.name;
+    const args = fc.args;
+
+    // Invalid arguments are sent back so that the model can correct them
+    const declaration = this.declarations.get(functionName);
+    const validationErrors = declaration
+      ? validateToolArgs(declaration, args)
+      : [];
+    if (validationErrors.length > 0) {
+      console.warn(
+        `Invalid arguments for ${functionName}:`,
+        args,
+        validationErrors,
+      );
+      return {
+        functionResponse: {
+          name: functionName,
+          response: {
+            error: `Invalid arguments for ${functionName}. Fix them and call the tool again.`,
+            validationErrors,
+          },
+        },
+      };
+    }
+
+    if (!(await this.confirmFunctionCall(turn, fc))) {
+      this.assertActive(turn);
+      console.log(`The user declined ${functionName}.`);
+      this.emit('functionCallDeclined', {name: functionName, args});
+      return {
+        functionResponse: {
+          name: functionName,
+          response: {result: DECLINED_RESULT},
+        },
+      };
+    }
+    this.assertActive(turn);
+
+    console.log(`Executing function: ${functionName} with args:`, args);
+    try {
+      const toolResult = await this.config.toolsConfig.handleToolCall(
+        functionName,
+        args,
+      );
+
+      // Always wrap the tool result in a standard object structure.
+      // The Gemini API requires the 'response' field to be a JSON object.
+      // This prevents errors when a tool returns a primitive (string) or an
+      // array, by ensuring the top-level payload is always an object.
+      const functionResponseData = {
+        result: toolResult,
+      };
+
+      if (turn === this.activeTurn) {
+        this.emit('functionCallCompleted', {
+          name: functionName,
+          args,
+          result: functionResponseData,
+        });
+      }
+      return {
+        functionResponse: {
+          name: functionName,
+          response: functionResponseData,
+        },
+      };
+    } catch (error) {
+      console.error(`Error executing tool ${functionName}:`, error);
+      if (turn === this.activeTurn) {
+        this.emit('error', {
+          message: `Error executing tool ${functionName}`,
+          details: error,
+        });
+      }
+      return {
+        functionResponse: {
+          name: functionName,
+          response: {
+            error: `Failed to execute tool: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        },
+      };
+    }
+  }
+
+  /**
+   * Asks the user to confirm a call if its tool has a confirmation policy.
+   * The turn's timeout is paused while waiting for the answer.
+   * @returns True if the call may run.
+   */
+  private async confirmFunctionCall(
+    turn: Turn,
+    fc: FunctionCall,
+  ): Promise<boolean> {
+    const {confirmToolCall} = this.config;
+    const metadata = this.config.toolsConfig.toolMetadata?.[fc.name];
+    const question = metadata?.confirmation?.(fc.args);
+    if (!question || !confirmToolCall) return true;
+
+    this.disarmTimeout(turn);
+    try {
+      return await confirmToolCall(
+        {name: fc.name, args: fc.args, question},
+        turn.abortController.signal,
+      );
+    } catch (error) {
+      console.error(
+        `Error confirming ${fc.name}; treating as declined:`,
+        error,
+      );
+      return false;
+    } finally {
+      if (turn === this.activeTurn) {
+        this.armTimeout(turn);
+      }
+    }
+  }
+
+  /**
+   * Checks if a tool only reads state, per `toolsConfig.toolMetadata`.
+   * Tools without metadata are assumed to change the UI.
+   */
+  private isReadOnlyTool(functionName: string): boolean {
+    return !!this.config.toolsConfig.toolMetadata?.[functionName]?.readOnly;
   }
 
   /**
    * Cleans up resources, like removing listeners inherited from EventEmitter.
+   * A turn in flight is cancelled silently; nothing is emitted afterwards,
+   * even if a late response arrives.
    */
   destroy(): void {
+    this.isDestroyed = true;
     this.removeAllListeners();
-    this.chat = null;
+    if (this.config.toolsConfig instanceof ToolRegistry) {
+      this.config.toolsConfig.off('change', this.handleToolsChanged);
+    }
+    this.cancel();
+    this.isChatInitialized = false;
     console.log('GeminiClient destroyed.');
   }
 }
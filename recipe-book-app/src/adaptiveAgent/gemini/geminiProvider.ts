@@ -0,0 +1,132 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  ChatSession,
+  Content,
+  EnhancedGenerateContentResponse,
+  FunctionResponsePart,
+  GenerativeModel,
+  GoogleGenerativeAI,
+  Part,
+} from '@google/generative-ai';
+import {
+  LlmProvider,
+  LlmProviderOptions,
+  LlmResponse,
+  LlmSendOptions,
+  LlmTurnResult,
+  toTurnResult,
+} from './llmProvider';
+
+const DEFAULT_MODEL_NAME = 'gemini-2.5-flash';
+
+/**
+ * An LlmProvider backed by the Gemini API through the Google AI SDK.
+ * WARNING: The API key is used directly from the browser.
+ */
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini';
+  private model: GenerativeModel;
+  private chat: ChatSession | null = null;
+
+  // Generation configuration
+  private generationConfig = {
+    temperature: 0.5,
+  };
+
+  constructor(
+    apiKey: string,
+    options: LlmProviderOptions,
+    modelName: string = DEFAULT_MODEL_NAME,
+  ) {
+    const generativeAI = new GoogleGenerativeAI(apiKey);
+    this.model = generativeAI.getGenerativeModel({
+      model: modelName,
+      systemInstruction: options.systemInstruction,
+      tools: options.functionDeclarations.length
+        ? [{functionDeclarations: options.functionDeclarations}]
+        : undefined,
+      generationConfig: this.generationConfig,
+    });
+    console.log('GeminiProvider initialized with model:', this.model.model);
+  }
+
+  startChat(history: Content[] = []): void {
+    // A copy, as the SDK's session appends each exchange to the array it got
+    this.chat = this.model.startChat({history: [...history]});
+  }
+
+  sendMessage(
+    message: string,
+    options?: LlmSendOptions,
+  ): Promise<LlmTurnResult> {
+    return this.send(message, options);
+  }
+
+  sendFunctionResponses(
+    responses: FunctionResponsePart[],
+    options?: LlmSendOptions,
+  ): Promise<LlmTurnResult> {
+    return this.send(responses, options);
+  }
+
+  async getHistory(): Promise<Content[]> {
+    return this.chat ? this.chat.getHistory() : [];
+  }
+
+  private async send(
+    request: string | Part[],
+    options: LlmSendOptions = {},
+  ): Promise<LlmTurnResult> {
+    if (!this.chat) {
+      throw new Error('Chat not initialized. Call startChat() first.');
+    }
+
+    if (!options.stream) {
+      const result = await this.chat.sendMessage(request);
+      if (!result || !result.response) {
+        throw new Error('Received invalid response from API');
+      }
+      return toTurnResult(toLlmResponse(result.response));
+    }
+
+    const result = await this.chat.sendMessageStream(request);
+    if (!result || !result.stream) {
+      throw new Error('Received invalid stream from API');
+    }
+    const response = result.response.then(toLlmResponse);
+    // Avoid unhandled rejections if the stream fails and is abandoned
+    response.catch(() => {});
+    return {
+      stream: (async function* () {
+        for await (const chunk of result.stream) {
+          yield toLlmResponse(chunk);
+        }
+      })(),
+      response,
+    };
+  }
+}
+
+/**
+ * Converts an SDK response into the provider-neutral format.
+ * Throws if the response was blocked, as the SDK accessors do.
+ */
+function toLlmResponse(response: EnhancedGenerateContentResponse): LlmResponse {
+  return {
+    text: response.text(),
+    functionCalls: response.functionCalls() ?? [],
+  };
+}
@@ -0,0 +1,245 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Content, Part} from '@google/generative-ai';
+import {stripTurnContext} from './turnContext';
+
+/**
+ * How much history is sent with each message.
+ */
+export interface HistoryBudget {
+  /**
+   * Estimated tokens the history may take up before it is compacted. 0
+   * disables compaction. Defaults to 8000.
+   */
+  maxTokens?: number;
+  /**
+   * User turns at the end of the history that are always kept in full.
+   * Defaults to 3.
+   */
+  keepRecentTurns?: number;
+}
+
+/**
+ * The payload of the `historyCompacted` event.
+ */
+export interface HistoryCompaction {
+  tokensBefore: number;
+  tokensAfter: number;
+  /** User turns replaced by the summary. */
+  droppedTurns: number;
+}
+
+export const DEFAULT_MAX_HISTORY_TOKENS = 8000;
+export const DEFAULT_KEEP_RECENT_TURNS = 3;
+
+// Roughly how many characters make a token in English text and JSON
+const CHARS_PER_TOKEN = 4;
+const TRUNCATED_RESULT = {
+  result:
+    'This old result was removed to save space. Call the tool again if needed.',
+};
+const SUMMARY_PREFIX = 'Summary of our earlier conversation:\n';
+const SUMMARY_ACK = 'Understood.';
+// Longest quote of a message or answer in the summary
+const MAX_SUMMARY_QUOTE_CHARS = 150;
+
+/**
+ * Estimates the tokens a history (or text) takes up. Good enough to budget
+ * by, without calling the model's token counter.
+ */
+export function estimateTokens(contents: Content[] | string): number {
+  const text =
+    typeof contents === 'string' ? contents : JSON.stringify(contents);
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Shrinks a history that is over budget, in two steps that stop as soon as
+ * it fits:
+ * 1. Results of function calls before the recent turns are replaced by a
+ *    note, except the latest result of each tool (e.g. the recipe the user
+ *    is asking about).
+ * 2. The oldest turns are replaced by a short summary of what the user asked,
+ *    which tools ran and what the agent answered.
+ * The recent turns are never changed.
+ * @param history The history, starting with a user message.
+ * @param budget See HistoryBudget.
+ * @returns The compacted history and what was done, or null if the history
+ *     is within budget.
+ */
+export function compactHistory(
+  history: Content[],
+  budget: HistoryBudget = {},
+): {history: Content[]; compaction: HistoryCompaction} | null {
+  const maxTokens = budget.maxTokens ?? DEFAULT_MAX_HISTORY_TOKENS;
+  const keepRecentTurns = budget.keepRecentTurns ?? DEFAULT_KEEP_RECENT_TURNS;
+  const tokensBefore = estimateTokens(history);
+  if (maxTokens <= 0 || tokensBefore <= maxTokens) return null;
+
+  const [summaryTurn, turns] = _splitTurns(history);
+  const olderCount = Math.max(0, turns.length - keepRecentTurns);
+  let older = _truncateResults(turns.slice(0, olderCount), turns);
+  const recent = turns.slice(olderCount);
+  let summary = summaryTurn ? _summaryText(summaryTurn) : '';
+  let droppedTurns = 0;
+
+  const build = () => [
+    ...(summary ? _summaryTurn(summary) : []),
+    ...older.flat(),
+    ...recent.flat(),
+  ];
+  let compacted = build();
+  while (estimateTokens(compacted) > maxTokens && older.length > 0) {
+    summary = _appendSummary(summary, older[0], maxTokens);
+    older = older.slice(1);
+    droppedTurns++;
+    compacted = build();
+  }
+
+  return {
+    history: compacted,
+    compaction: {
+      tokensBefore,
+      tokensAfter: estimateTokens(compacted),
+      droppedTurns,
+    },
+  };
+}
+
+/**
+ * Splits a history into user turns, each starting with a user message and
+ * holding the function calls and answers that followed it.
+ * @returns The summary turn from an earlier compaction, if any, and the
+ *     other turns.
+ */
+function _splitTurns(history: Content[]): [Content[] | null, Content[][]] {
+  const turns: Content[][] = [];
+  for (const content of history) {
+    if (content.role === 'user' || turns.length === 0) {
+      turns.push([content]);
+    } else {
+      turns[turns.length - 1].push(content);
+    }
+  }
+  const first = turns[0]?.[0]?.parts[0]?.text;
+  return first?.startsWith(SUMMARY_PREFIX)
+    ? [turns[0], turns.slice(1)]
+    : [null, turns];
+}
+
+/**
+ * Replaces the function results in the given turns by a note, except the
+ * latest result of each tool in the whole history.
+ */
+function _truncateResults(
+  turns: Content[][],
+  allTurns: Content[][],
+): Content[][] {
+  const latest = new Map<string, Part>();
+  for (const content of allTurns.flat()) {
+    for (const part of content.parts) {
+      if (part.functionResponse) {
+        latest.set(part.functionResponse.name, part);
+      }
+    }
+  }
+  const keep = new Set(latest.values());
+  return turns.map((turn) =>
+    turn.map((content) => ({
+      ...content,
+      parts: content.parts.map((part) =>
+        part.functionResponse && !keep.has(part)
+          ? {
+              functionResponse: {
+                name: part.functionResponse.name,
+                response: TRUNCATED_RESULT,
+              },
+            }
+          : part,
+      ),
+    })),
+  );
+}
+
+/**
+ * Adds a turn to the summary. The oldest lines are dropped if the summary
+ * would take up more than a quarter of the budget.
+ */
+function _appendSummary(
+  summary: string,
+  turn: Content[],
+  maxTokens: number,
+): string {
+  const lines = summary ? summary.split('\n') : [];
+  lines.push(_summarizeTurn(turn));
+  while (lines.length > 1 && estimateTokens(lines.join('\n')) > maxTokens / 4) {
+    lines.shift();
+  }
+  return lines.join('\n');
+}
+
+function _summarizeTurn(turn: Content[]): string {
+  const [message, ...replies] = turn;
+  const userText = stripTurnContext(_textOf(message));
+  const calls = replies
+    .flatMap((content) => content.parts)
+    .filter((part) => part.functionCall)
+    .map(
+      ({functionCall}) =>
+        `${functionCall!.name}(${JSON.stringify(functionCall!.args ?? {})})`,
+    );
+  const answer = replies
+    .filter((content) => content.role === 'model')
+    .map(_textOf)
+    .filter(Boolean)
+    .pop();
+  let line = `- The user said "${_quote(userText)}".`;
+  if (calls.length > 0) {
+    line += ` You called ${calls.join(', ')}.`;
+  }
+  if (answer) {
+    line += ` You answered "${_quote(answer)}".`;
+  }
+  return line;
+}
+
+function _summaryText(summaryTurn: Content[]): string {
+  return _textOf(summaryTurn[0]).slice(SUMMARY_PREFIX.length);
+}
+
+/**
+ * The summary as a user message the model acknowledges, so that the
+ * history still starts with a user message and alternates roles.
+ */
+function _summaryTurn(summary: string): Content[] {
+  return [
+    {role: 'user', parts: [{text: SUMMARY_PREFIX + summary}]},
+    {role: 'model', parts: [{text: SUMMARY_ACK}]},
+  ];
+}
+
+function _textOf(content: Content): string {
+  return content.parts
+    .map((part) => part.text ?? '')
+    .join('')
+    .trim();
+}
+
+function _quote(text: string): string {
+  const oneLine = text.replace(/\s+/g, ' ');
+  return oneLine.length > MAX_SUMMARY_QUOTE_CHARS
+    ? `${oneLine.slice(0, MAX_SUMMARY_QUOTE_CHARS)}...`
+    : oneLine;
+}
@@ -0,0 +1,120 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  Content,
+  FunctionCall,
+  FunctionDeclaration,
+  FunctionResponsePart,
+} from '@google/generative-ai';
+
+/**
+ * A model response, or a piece of one when streaming.
+ */
+export interface LlmResponse {
+  /** The text of the response. Empty if the model only requested tools. */
+  text: string;
+  /** Function calls requested by the model, if any. */
+  functionCalls: FunctionCall[];
+}
+
+/**
+ * The result of sending a turn to a provider.
+ * Mirrors the shape of the Gemini SDK's streaming result so that
+ * non-streaming and streaming callers can share the same code path.
+ */
+export interface LlmTurnResult {
+  /** Yields the response piece by piece. Yields once if not streaming. */
+  stream: AsyncIterable<LlmResponse>;
+  /** Resolves with the aggregated response once the turn is complete. */
+  response: Promise<LlmResponse>;
+}
+
+/**
+ * Options for a single send call.
+ */
+export interface LlmSendOptions {
+  /** Whether the provider should stream the response. Defaults to false. */
+  stream?: boolean;
+  /**
+   * Aborts the request where the backend supports it. Callers must still
+   * ignore late results, since not every backend can abort (the Gemini SDK
+   * cannot), and should restart the chat with startChat() afterwards.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Everything a provider needs to set up a model for the agent.
+ */
+export interface LlmProviderOptions {
+  /** The system prompt built by the SystemInstructionsFactory. */
+  systemInstruction: string;
+  /** The tools the model may call. */
+  functionDeclarations: FunctionDeclaration[];
+}
+
+/**
+ * A chat-based LLM backend used by the GeminiClient.
+ * The history format follows the Gemini `Content` structure, which every
+ * provider is expected to produce and accept.
+ */
+export interface LlmProvider {
+  /** A short name for logging, e.g. 'gemini' or 'mock'. */
+  readonly name: string;
+
+  /**
+   * Starts a new chat session, discarding any previous one.
+   * @param history Optional prior turns to seed the session with.
+   */
+  startChat(history?: Content[]): void;
+
+  /**
+   * Sends a user message in the current chat session.
+   * @param message The text message from the user.
+   */
+  sendMessage(message: string, options?: LlmSendOptions): Promise<LlmTurnResult>;
+
+  /**
+   * Sends the results of the function calls requested in the previous turn.
+   * @param responses One response part per requested function call.
+   */
+  sendFunctionResponses(
+    responses: FunctionResponsePart[],
+    options?: LlmSendOptions,
+  ): Promise<LlmTurnResult>;
+
+  /**
+   * Gets the chat history so far, including function call turns.
+   */
+  getHistory(): Promise<Content[]>;
+}
+
+/**
+ * Creates a provider once the GeminiClient has built the system prompt.
+ */
+export type LlmProviderFactory = (options: LlmProviderOptions) => LlmProvider;
+
+/**
+ * Wraps a complete response as a single-chunk turn result.
+ * Useful for providers that cannot stream.
+ */
+export function toTurnResult(response: LlmResponse): LlmTurnResult {
+  return {
+    stream: (async function* () {
+      yield response;
+    })(),
+    response: Promise.resolve(response),
+  };
+}
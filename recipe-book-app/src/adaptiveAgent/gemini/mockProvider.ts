@@ -0,0 +1,203 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  Content,
+  FunctionCall,
+  FunctionResponsePart,
+  Part,
+} from '@google/generative-ai';
+import {
+  LlmProvider,
+  LlmResponse,
+  LlmSendOptions,
+  LlmTurnResult,
+  toTurnResult,
+} from './llmProvider';
+import {stripTurnContext} from './turnContext';
+
+/**
+ * A scripted reply from the mock model.
+ */
+export interface MockReply {
+  /** Text to respond with. */
+  text?: string;
+  /** Function calls to request instead of (or before) answering. */
+  functionCalls?: FunctionCall[];
+  /**
+   * Text to respond with once the function results come back.
+   * If omitted, the string results of the tools are read back.
+   */
+  followUpText?: string;
+}
+
+/**
+ * Maps user messages to scripted replies.
+ */
+export interface MockRule {
+  /** A pattern, or a case-insensitive substring, matched against the message. */
+  match: RegExp | string;
+  /** The reply, or a function building it from the regular expression match. */
+  reply: MockReply | ((match: RegExpMatchArray) => MockReply);
+}
+
+/**
+ * The script followed by the MockProvider.
+ */
+export interface MockScript {
+  /** Rules checked in order; the first match wins. */
+  rules: MockRule[];
+  /** Reply used when no rule matches. */
+  fallback?: MockReply;
+  /** Delay between streamed chunks, to simulate a network. Defaults to 0. */
+  chunkDelayMs?: number;
+}
+
+const DEFAULT_FALLBACK: MockReply = {
+  text: "Sorry, I don't know how to help with that in offline mode.",
+};
+
+/**
+ * A deterministic LlmProvider that answers from a script instead of a model.
+ * It runs fully offline, which makes it suitable for development, demos and
+ * tests that must not depend on the network or spend API quota.
+ */
+export class MockProvider implements LlmProvider {
+  readonly name = 'mock';
+  private history: Content[] = [];
+  private pendingFollowUpText: string | undefined;
+  private isChatStarted = false;
+
+  constructor(private readonly script: MockScript) {}
+
+  startChat(history: Content[] = []): void {
+    this.history = [...history];
+    this.pendingFollowUpText = undefined;
+    this.isChatStarted = true;
+  }
+
+  async sendMessage(
+    message: string,
+    options?: LlmSendOptions,
+  ): Promise<LlmTurnResult> {
+    this.assertChatStarted();
+    this.history.push({role: 'user', parts: [{text: message}]});
+
+    const reply = this.findReply(stripTurnContext(message));
+    this.pendingFollowUpText = reply.followUpText;
+    return this.respond(
+      {text: reply.text ?? '', functionCalls: reply.functionCalls ?? []},
+      options,
+    );
+  }
+
+  async sendFunctionResponses(
+    responses: FunctionResponsePart[],
+    options?: LlmSendOptions,
+  ): Promise<LlmTurnResult> {
+    this.assertChatStarted();
+    this.history.push({role: 'function', parts: responses});
+
+    const text = this.pendingFollowUpText ?? summarizeResults(responses);
+    this.pendingFollowUpText = undefined;
+    return this.respond({text, functionCalls: []}, options);
+  }
+
+  async getHistory(): Promise<Content[]> {
+    return [...this.history];
+  }
+
+  private assertChatStarted(): void {
+    if (!this.isChatStarted) {
+      throw new Error('Chat not initialized. Call startChat() first.');
+    }
+  }
+
+  private findReply(message: string): MockReply {
+    for (const rule of this.script.rules) {
+      const pattern =
+        typeof rule.match === 'string'
+          ? new RegExp(escapeRegExp(rule.match), 'i')
+          : rule.match;
+      const match = message.match(pattern);
+      if (match) {
+        return typeof rule.reply === 'function' ? rule.reply(match) : rule.reply;
+      }
+    }
+    return this.script.fallback ?? DEFAULT_FALLBACK;
+  }
+
+  /**
+   * Records the model turn in the history and returns it, split into
+   * word-sized chunks if streaming was requested.
+   */
+  private respond(
+    response: LlmResponse,
+    options: LlmSendOptions = {},
+  ): LlmTurnResult {
+    const parts: Part[] = [];
+    if (response.text) {
+      parts.push({text: response.text});
+    }
+    response.functionCalls.forEach((functionCall) =>
+      parts.push({functionCall}),
+    );
+    this.history.push({role: 'model', parts});
+
+    if (!options.stream) {
+      return toTurnResult(response);
+    }
+
+    const words = response.text.match(/\S+\s*/g) ?? [];
+    const delayMs = this.script.chunkDelayMs ?? 0;
+    const signal = options.signal;
+    return {
+      stream: (async function* () {
+        for (const word of words) {
+          if (delayMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, delayMs));
+          }
+          signal?.throwIfAborted();
+          yield {text: word, functionCalls: []};
+        }
+        if (response.functionCalls.length > 0) {
+          yield {text: '', functionCalls: response.functionCalls};
+        }
+      })(),
+      response: Promise.resolve(response),
+    };
+  }
+}
+
+/**
+ * Builds a reply from the tool results, reading back any string results.
+ */
+function summarizeResults(responses: FunctionResponsePart[]): string {
+  const sentences = responses
+    .map(({functionResponse}) => {
+      const payload = functionResponse.response as {
+        result?: unknown;
+        error?: unknown;
+      };
+      if (typeof payload.error === 'string') return payload.error;
+      if (typeof payload.result === 'string') return payload.result;
+      return null;
+    })
+    .filter((sentence): sentence is string => !!sentence);
+  return sentences.length > 0 ? sentences.join(' ') : 'Done.';
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,212 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Content, FunctionResponsePart, Part} from '@google/generative-ai';
+import {
+  LlmProvider,
+  LlmProviderOptions,
+  LlmResponse,
+  LlmSendOptions,
+  LlmTurnResult,
+  toTurnResult,
+} from './llmProvider';
+
+/**
+ * A line of the relay's newline-delimited JSON stream.
+ */
+interface RelayStreamLine {
+  chunk?: LlmResponse;
+  done?: boolean;
+  response?: LlmResponse;
+  error?: string;
+}
+
+/**
+ * An error returned by the relay, carrying the HTTP status when known.
+ */
+export class RelayError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'RelayError';
+  }
+}
+
+/**
+ * An LlmProvider that talks to the agent relay server (see server/relay.js)
+ * instead of calling the Gemini API directly, so the API key never reaches
+ * the browser. The relay is stateless; the chat history is kept here and
+ * sent with every request.
+ */
+export class RelayProvider implements LlmProvider {
+  readonly name = 'relay';
+  private history: Content[] = [];
+  private isChatStarted = false;
+
+  /**
+   * @param relayUrl The relay's chat endpoint, e.g. '/api/agent/chat'.
+   * @param options The system prompt and tools, forwarded with each request.
+   * @param modelName Optional model name; the relay decides which are allowed.
+   */
+  constructor(
+    private readonly relayUrl: string,
+    private readonly options: LlmProviderOptions,
+    private readonly modelName?: string,
+  ) {}
+
+  startChat(history: Content[] = []): void {
+    this.history = [...history];
+    this.isChatStarted = true;
+  }
+
+  sendMessage(
+    message: string,
+    options?: LlmSendOptions,
+  ): Promise<LlmTurnResult> {
+    return this.send({role: 'user', parts: [{text: message}]}, message, options);
+  }
+
+  sendFunctionResponses(
+    responses: FunctionResponsePart[],
+    options?: LlmSendOptions,
+  ): Promise<LlmTurnResult> {
+    return this.send({role: 'function', parts: responses}, responses, options);
+  }
+
+  async getHistory(): Promise<Content[]> {
+    return [...this.history];
+  }
+
+  /**
+   * Posts the request to the relay. The request and the model's reply are
+   * added to the history only once the turn has completed successfully.
+   */
+  private async send(
+    requestContent: Content,
+    message: string | Part[],
+    options: LlmSendOptions = {},
+  ): Promise<LlmTurnResult> {
+    if (!this.isChatStarted) {
+      throw new Error('Chat not initialized. Call startChat() first.');
+    }
+
+    // Requests still in flight after startChat() must not touch the new history
+    const history = this.history;
+    const response = await fetch(this.relayUrl, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {'Content-Type': 'application/json'},
+      body: JSON.stringify({
+        model: this.modelName,
+        systemInstruction: this.options.systemInstruction,
+        tools: this.options.functionDeclarations,
+        history,
+        message,
+        stream: !!options.stream,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new RelayError(
+        body.error || `Relay request failed with status ${response.status}.`,
+        response.status,
+      );
+    }
+
+    const commit = (modelResponse: LlmResponse) => {
+      history.push(requestContent, toModelContent(modelResponse));
+      return modelResponse;
+    };
+
+    if (!options.stream) {
+      return toTurnResult(commit((await response.json()) as LlmResponse));
+    }
+
+    // The stream and the final response are fed by the same reader
+    let resolveResponse: (response: LlmResponse) => void;
+    let rejectResponse: (reason: unknown) => void;
+    const finalResponse = new Promise<LlmResponse>((resolve, reject) => {
+      resolveResponse = resolve;
+      rejectResponse = reject;
+    });
+    // Avoid unhandled rejections if only the stream is consumed
+    finalResponse.catch(() => {});
+
+    const lines = readLines(response);
+    const stream = (async function* () {
+      try {
+        for await (const line of lines) {
+          const parsed = JSON.parse(line) as RelayStreamLine;
+          if (parsed.error) {
+            throw new RelayError(parsed.error);
+          }
+          if (parsed.chunk) {
+            yield parsed.chunk;
+          }
+          if (parsed.done && parsed.response) {
+            resolveResponse(commit(parsed.response));
+            return;
+          }
+        }
+        throw new RelayError('Relay stream ended without a response.');
+      } catch (error) {
+        rejectResponse(error);
+        throw error;
+      }
+    })();
+
+    return {stream, response: finalResponse};
+  }
+}
+
+/**
+ * Builds the model turn recorded in the history from a response.
+ */
+function toModelContent(response: LlmResponse): Content {
+  const parts: Part[] = [];
+  if (response.text) {
+    parts.push({text: response.text});
+  }
+  response.functionCalls.forEach((functionCall) => parts.push({functionCall}));
+  return {role: 'model', parts};
+}
+
+/**
+ * Reads a fetch response body line by line.
+ */
+async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new RelayError('Relay response has no body.');
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const {done, value} = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, {stream: true});
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (line) yield line;
+    }
+  }
+  if (buffer.trim()) {
+    yield buffer.trim();
+  }
+}
@@ -0,0 +1,152 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Content, FunctionResponsePart, Part} from '@google/generative-ai';
+import {
+  ConversationRecording,
+  RECORDING_VERSION,
+  RecordedResponse,
+  RecordedTurn,
+} from './conversationRecorder';
+import {LlmProvider, LlmTurnResult, toTurnResult} from './llmProvider';
+import {stripTurnContext} from './turnContext';
+
+/**
+ * Thrown when the client sends something the recording doesn't expect,
+ * e.g. a different user message, or more messages than were recorded.
+ */
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+/**
+ * An LlmProvider that plays back a ConversationRecording instead of asking a
+ * model, so that recorded conversations can be run offline against the
+ * current tools and prompt.
+ *
+ * The model's responses are replayed as recorded. The tools' results are
+ * produced by the current tools and compared with the recorded ones;
+ * differences are collected in `mismatches` rather than failing the turn.
+ */
+export class ReplayProvider implements LlmProvider {
+  readonly name = 'replay';
+  /** Where the tools' results differ from the recording. */
+  readonly mismatches: string[] = [];
+  private history: Content[] = [];
+  private turnIndex = -1;
+  private responseIndex = 0;
+
+  /**
+   * @throws ReplayError If the recording is in another format.
+   */
+  constructor(private readonly recording: ConversationRecording) {
+    if (recording.version !== RECORDING_VERSION) {
+      throw new ReplayError(
+        `Unsupported recording version ${recording.version}; expected ${RECORDING_VERSION}.`,
+      );
+    }
+  }
+
+  /**
+   * Restarts the chat. The replay continues where it was, since the client
+   * restarts the chat when e.g. the system prompt changes.
+   */
+  startChat(history: Content[] = []): void {
+    this.history = [...history];
+  }
+
+  async sendMessage(message: string): Promise<LlmTurnResult> {
+    const userText = stripTurnContext(message);
+    const turn = this.recording.turns[this.turnIndex + 1];
+    if (!turn) {
+      throw new ReplayError(
+        `Unexpected message "${userText}": the recording has no more turns.`,
+      );
+    }
+    if (userText !== turn.user) {
+      throw new ReplayError(
+        `Expected the message "${turn.user}" but got "${userText}".`,
+      );
+    }
+    this.turnIndex++;
+    this.responseIndex = 0;
+    this.history.push({role: 'user', parts: [{text: message}]});
+    return this.respond(turn);
+  }
+
+  async sendFunctionResponses(
+    responses: FunctionResponsePart[],
+  ): Promise<LlmTurnResult> {
+    const turn = this.recording.turns[this.turnIndex];
+    const answered = turn?.responses[this.responseIndex];
+    if (!answered?.functionCalls.length) {
+      throw new ReplayError('Unexpected function responses.');
+    }
+    this.compareToolResults(answered, responses);
+    this.responseIndex++;
+    this.history.push({role: 'function', parts: responses});
+    return this.respond(turn);
+  }
+
+  async getHistory(): Promise<Content[]> {
+    return [...this.history];
+  }
+
+  /**
+   * Whether every recorded turn has been replayed.
+   */
+  isComplete(): boolean {
+    return this.turnIndex === this.recording.turns.length - 1;
+  }
+
+  private respond(turn: RecordedTurn): LlmTurnResult {
+    const response = turn.responses[this.responseIndex];
+    if (!response) {
+      throw new ReplayError(
+        `The recording has no response ${this.responseIndex + 1} to "${turn.user}".`,
+      );
+    }
+    const parts: Part[] = [];
+    if (response.text) {
+      parts.push({text: response.text});
+    }
+    response.functionCalls.forEach((functionCall) =>
+      parts.push({functionCall}),
+    );
+    this.history.push({role: 'model', parts});
+    return toTurnResult({
+      text: response.text,
+      functionCalls: response.functionCalls,
+    });
+  }
+
+  private compareToolResults(
+    recorded: RecordedResponse,
+    responses: FunctionResponsePart[],
+  ): void {
+    const expected = recorded.toolResults ?? [];
+    responses.forEach(({functionResponse}, i) => {
+      const actual = JSON.stringify(functionResponse);
+      const wanted = JSON.stringify(expected[i]);
+      if (actual !== wanted) {
+        this.mismatches.push(
+          `Turn ${this.turnIndex + 1} ("${this.recording.turns[this.turnIndex].user}"): ${functionResponse.name} returned ${actual}; the recording has ${wanted}.`,
+        );
+      }
+    });
+  }
+}
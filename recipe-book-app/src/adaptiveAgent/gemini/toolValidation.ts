@@ -0,0 +1,193 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  FunctionDeclaration,
+  FunctionDeclarationSchemaProperty,
+  FunctionDeclarationSchemaType as SchemaType,
+} from '@google/generative-ai';
+
+/**
+ * A parameter schema with the numeric bounds of the OpenAPI subset used by
+ * the Gemini API, which the SDK's types don't declare yet.
+ */
+export interface ToolParameterSchema extends FunctionDeclarationSchemaProperty {
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * An argument that doesn't match the tool's declaration.
+ */
+export interface ToolArgsError {
+  /** Where the problem is, e.g. 'recipe_id' or 'items[2].name'. */
+  path: string;
+  message: string;
+}
+
+/**
+ * Checks function call arguments against the parameters schema of the
+ * tool's declaration: types, required and unknown properties, enums and
+ * numeric bounds.
+ * @param declaration The tool's declaration.
+ * @param args The arguments from the model.
+ * @returns The problems found; empty if the arguments are valid.
+ */
+export function validateToolArgs(
+  declaration: FunctionDeclaration,
+  args: unknown,
+): ToolArgsError[] {
+  const errors: ToolArgsError[] = [];
+  const parameters = declaration.parameters;
+  if (!parameters) {
+    if (_isObject(args) && Object.keys(args).length > 0) {
+      errors.push({path: '', message: 'This tool takes no arguments.'});
+    }
+    return errors;
+  }
+  _validate(parameters as ToolParameterSchema, args ?? {}, '', errors);
+  return errors;
+}
+
+function _validate(
+  schema: ToolParameterSchema,
+  value: unknown,
+  path: string,
+  errors: ToolArgsError[],
+): void {
+  if (value === null) {
+    if (!schema.nullable) {
+      errors.push({path, message: 'Must not be null.'});
+    }
+    return;
+  }
+
+  switch (schema.type) {
+    case SchemaType.STRING:
+      if (typeof value !== 'string') {
+        errors.push({
+          path,
+          message: `Expected a string, got ${_typeOf(value)}.`,
+        });
+      }
+      break;
+    case SchemaType.NUMBER:
+    case SchemaType.INTEGER:
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push({
+          path,
+          message: `Expected a number, got ${_typeOf(value)}.`,
+        });
+        return;
+      }
+      if (schema.type === SchemaType.INTEGER && !Number.isInteger(value)) {
+        errors.push({path, message: `Expected an integer, got ${value}.`});
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push({path, message: `Must be at least ${schema.minimum}.`});
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push({path, message: `Must be at most ${schema.maximum}.`});
+      }
+      break;
+    case SchemaType.BOOLEAN:
+      if (typeof value !== 'boolean') {
+        errors.push({
+          path,
+          message: `Expected true or false, got ${_typeOf(value)}.`,
+        });
+      }
+      break;
+    case SchemaType.ARRAY:
+      if (!Array.isArray(value)) {
+        errors.push({
+          path,
+          message: `Expected an array, got ${_typeOf(value)}.`,
+        });
+        return;
+      }
+      if (schema.items) {
+        const items = schema.items as ToolParameterSchema;
+        value.forEach((item, index) =>
+          _validate(items, item, `${path}[${index}]`, errors),
+        );
+      }
+      break;
+    case SchemaType.OBJECT:
+      if (!_isObject(value)) {
+        errors.push({
+          path,
+          message: `Expected an object, got ${_typeOf(value)}.`,
+        });
+        return;
+      }
+      _validateProperties(schema, value, path, errors);
+      break;
+    default:
+      // No type declared; anything goes
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push({
+      path,
+      message: `Must be one of ${schema.enum.map((v) => `'${v}'`).join(', ')}.`,
+    });
+  }
+}
+
+function _validateProperties(
+  schema: ToolParameterSchema,
+  value: Record<string, unknown>,
+  path: string,
+  errors: ToolArgsError[],
+): void {
+  const properties = (schema.properties ?? {}) as Record<
+    string,
+    ToolParameterSchema
+  >;
+  for (const name of schema.required ?? []) {
+    if (value[name] === undefined) {
+      errors.push({path: _join(path, name), message: 'Is required.'});
+    }
+  }
+  for (const [name, propertyValue] of Object.entries(value)) {
+    const propertySchema = properties[name];
+    if (!propertySchema) {
+      const known = Object.keys(properties);
+      errors.push({
+        path: _join(path, name),
+        message: known.length
+          ? `Unknown argument. Expected one of: ${known.join(', ')}.`
+          : 'Unknown argument.',
+      });
+    } else if (propertyValue !== undefined) {
+      _validate(propertySchema, propertyValue, _join(path, name), errors);
+    }
+  }
+}
+
+function _isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function _typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `the string "${value}"`;
+  return typeof value === 'object' ? 'an object' : String(value);
+}
+
+function _join(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
@@ -0,0 +1,103 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * A snapshot of what the user sees, e.g. `{view: 'detail', openRecipeId: 3}`.
+ * Values must be serializable to JSON.
+ */
+export type TurnContext = Record<string, unknown>;
+
+/**
+ * Takes a snapshot of the app's state for the model at the start of a turn.
+ * @returns The snapshot, or null to send the message without one.
+ */
+export type TurnContextProvider = () => TurnContext | null;
+
+export const DEFAULT_MAX_TURN_CONTEXT_CHARS = 1000;
+
+// Strings are cut to this length in snapshots that are too long, so that a
+// long search query or title doesn't crowd out the lists
+const MAX_STRING_CHARS = 80;
+
+const PREFIX = '[App state: ';
+// JSON.stringify escapes line breaks, so the snapshot fits on one line
+const CONTEXT_PATTERN = /^\[App state: [^\n]*\]\n\n/;
+
+/**
+ * Prepends a snapshot of the app's state to a user message.
+ * @param message The user's message.
+ * @param context The snapshot.
+ * @param maxChars The most characters the snapshot may take up. Longer
+ *     snapshots are shortened by cutting long strings, then their longest
+ *     lists; if that's not enough, the message is sent without one.
+ */
+export function addTurnContext(
+  message: string,
+  context: TurnContext,
+  maxChars = DEFAULT_MAX_TURN_CONTEXT_CHARS,
+): string {
+  const json = _boundedJson(context, maxChars - PREFIX.length - 1);
+  if (json === null) {
+    if (import.meta.env.DEV) {
+      console.warn(`Turn context exceeds ${maxChars} characters; left out.`);
+    }
+    return message;
+  }
+  return `${PREFIX}${json}]\n\n${message}`;
+}
+
+/**
+ * Removes the snapshot added by addTurnContext, if any.
+ * @returns The user's own words.
+ */
+export function stripTurnContext(message: string): string {
+  return message.replace(CONTEXT_PATTERN, '');
+}
+
+function _boundedJson(context: TurnContext, maxChars: number): string | null {
+  let json = JSON.stringify(context);
+  if (json.length <= maxChars) return json;
+  // Parsing the JSON again reaches the nested strings too
+  const bounded: TurnContext = JSON.parse(json, _truncateString);
+  json = JSON.stringify(bounded);
+  while (json.length > maxChars) {
+    const key = _longestListKey(bounded);
+    if (!key) return null;
+    // Keep the start of the list, which is what's at the top of the screen
+    const list = bounded[key] as unknown[];
+    bounded[key] = list.slice(0, Math.floor(list.length / 2));
+    bounded[`${key}Truncated`] = true;
+    json = JSON.stringify(bounded);
+  }
+  return json;
+}
+
+/** Cuts a string in a snapshot to MAX_STRING_CHARS. */
+function _truncateString(_key: string, value: unknown): unknown {
+  return typeof value === 'string' && value.length > MAX_STRING_CHARS
+    ? `${value.slice(0, MAX_STRING_CHARS - 1)}…`
+    : value;
+}
+
+function _longestListKey(context: TurnContext): string | null {
+  let longestKey: string | null = null;
+  let longestLength = 0;
+  for (const [key, value] of Object.entries(context)) {
+    if (Array.isArray(value) && value.length > longestLength) {
+      longestKey = key;
+      longestLength = value.length;
+    }
+  }
+  return longestKey;
+}
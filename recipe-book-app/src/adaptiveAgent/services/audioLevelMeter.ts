@@ -0,0 +1,107 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Measures the loudness of the microphone input using the Web Audio API.
+ * Used for voice activity detection alongside speech recognition.
+ */
+export class AudioLevelMeter {
+  private audioContext: AudioContext | null = null;
+  private mediaStream: MediaStream | null = null;
+  private analyser: AnalyserNode | null = null;
+  private samples: Float32Array | null = null;
+
+  /**
+   * Checks if the browser can provide microphone levels.
+   */
+  isSupported(): boolean {
+    return (
+      typeof window !== 'undefined' &&
+      !!window.AudioContext &&
+      !!navigator.mediaDevices?.getUserMedia
+    );
+  }
+
+  /**
+   * Checks if the meter is currently running.
+   */
+  isRunning(): boolean {
+    return this.analyser !== null;
+  }
+
+  /**
+   * Opens the microphone and starts measuring.
+   * Echo cancellation is requested so the agent's own speech registers less.
+   * @returns A promise resolving to true if the meter started, false otherwise.
+   */
+  async start(): Promise<boolean> {
+    if (this.analyser) return true;
+    if (!this.isSupported()) {
+      console.warn('Audio level metering is not supported in this browser.');
+      return false;
+    }
+
+    try {
+      this.mediaStream = await navigator.mediaDevices.getUserMedia({
+        audio: {echoCancellation: true, noiseSuppression: true},
+      });
+      this.audioContext = new window.AudioContext();
+      if (this.audioContext.state === 'suspended') {
+        await this.audioContext.resume();
+      }
+      const source = this.audioContext.createMediaStreamSource(
+        this.mediaStream,
+      );
+      this.analyser = this.audioContext.createAnalyser();
+      this.analyser.fftSize = 1024;
+      this.samples = new Float32Array(this.analyser.fftSize);
+      source.connect(this.analyser);
+      return true;
+    } catch (error) {
+      console.error('Failed to start audio level meter:', error);
+      this.stop();
+      return false;
+    }
+  }
+
+  /**
+   * Gets the current input level as a root mean square of the samples.
+   * @returns A value from 0 (silence) to about 1 (full scale), or 0 if stopped.
+   */
+  getLevel(): number {
+    if (!this.analyser || !this.samples) return 0;
+    this.analyser.getFloatTimeDomainData(this.samples);
+    let sumOfSquares = 0;
+    for (const sample of this.samples) {
+      sumOfSquares += sample * sample;
+    }
+    return Math.sqrt(sumOfSquares / this.samples.length);
+  }
+
+  /**
+   * Stops measuring and releases the microphone.
+   */
+  stop(): void {
+    this.mediaStream?.getTracks().forEach((track) => track.stop());
+    this.mediaStream = null;
+    this.analyser = null;
+    this.samples = null;
+    if (this.audioContext && this.audioContext.state !== 'closed') {
+      this.audioContext
+        .close()
+        .catch((e) => console.error('Error closing AudioContext:', e));
+    }
+    this.audioContext = null;
+  }
+}
@@ -101,6 +101,24 @@ export class CaptionsService {
     }
   }
 
+  /**
+   * Replaces the text of the current caption in place, keeping its position
+   * and any drag in progress. Shows a new caption if none is displayed.
+   * Useful for captions that grow while a response is streamed.
+   * @param caption The text to display.
+   */
+  updateCaption(caption: string): void {
+    if (!this.currentCaptionElement) {
+      this.showCaption(caption);
+      return;
+    }
+    if (this.currentCaptionTimeoutId !== null) {
+      clearTimeout(this.currentCaptionTimeoutId);
+      this.currentCaptionTimeoutId = null;
+    }
+    this.currentCaptionElement.textContent = caption;
+  }
+
   /**
    * Removes the currently displayed caption from the screen immediately.
    * Also cleans up any associated timeouts and event listeners.
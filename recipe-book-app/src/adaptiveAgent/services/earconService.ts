@@ -163,6 +163,14 @@ export class EarconService {
     ]);
   }
 
+  /** Earcon: Wake Phrase Heard (Attentive) - Two Quick High Tones */
+  async playWakeEarcon(): Promise<void> {
+    await this._playToneSequence([
+      {frequency: 880.0, duration: 0.06, pauseAfter: 0.04},
+      {frequency: 1174.66, duration: 0.08},
+    ]);
+  }
+
   /**
    * Cleans up resources, stopping sounds and potentially closing the AudioContext.
    */
@@ -0,0 +1,215 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {AssistantTask} from '../config/systemInstructionsFactory';
+
+/**
+ * A command that can be understood without the model: how to fill in the
+ * tool's arguments from what the user said, and what to say once it ran.
+ * Define intents with `defineLocalIntent`, so that `confirm` is checked
+ * against the arguments `extractArgs` returns.
+ */
+export interface LocalIntent<A extends object = object> {
+  /** The tool to call. */
+  functionName: string;
+  /**
+   * Phrasings to match in addition to the example queries of the tasks that
+   * call this tool, e.g. short commands like 'Dark mode on'.
+   */
+  examples?: string[];
+  /**
+   * Fills in the tool's arguments from the user's words.
+   * @returns The arguments, or null if a required one is missing.
+   */
+  extractArgs(text: string): A | null;
+  /** A short confirmation to speak after the tool ran. */
+  confirm(args: A, result: string | object | null): string;
+}
+
+/**
+ * Defines a local intent. The arguments of `confirm` are inferred from
+ * `extractArgs`.
+ * @returns The same intent, to pass to an IntentMatcher.
+ */
+export function defineLocalIntent<A extends object>(
+  intent: LocalIntent<A>,
+): LocalIntent<A> {
+  return intent;
+}
+
+/**
+ * The best local intent for a message.
+ */
+export interface IntentMatch {
+  intent: LocalIntent;
+  args: object;
+  /** From 0 (unrelated) to 1 (same words as an example). */
+  confidence: number;
+}
+
+export interface IntentMatcherOptions {
+  /**
+   * Replaces slot values (e.g. recipe names or numbers) with placeholder
+   * words. Applied to examples and messages alike, so that "Open recipe 7"
+   * matches "Open recipe 12" as well as it matches itself.
+   */
+  maskSlots?: (text: string) => string;
+}
+
+// If the two best intents score this close, the message is ambiguous and
+// left to the model
+const AMBIGUITY_MARGIN = 0.1;
+
+// Filler words that carry no intent
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'the',
+  'please',
+  'can',
+  'could',
+  'would',
+  'will',
+  'you',
+  'i',
+  'me',
+  'my',
+  'it',
+  'is',
+  'be',
+  'to',
+  'of',
+  'just',
+  'now',
+  'hey',
+  'ok',
+  'okay',
+]);
+
+/**
+ * Matches messages against the example queries of the assistant's tasks,
+ * without calling the model. A message is only handled locally if its
+ * closest task calls a single tool that has a local intent.
+ */
+export class IntentMatcher {
+  private readonly examples: {
+    target: LocalIntent | AssistantTask;
+    words: Set<string>;
+  }[] = [];
+  private readonly maskSlots: (text: string) => string;
+
+  /**
+   * @param tasks The tasks from the agent config, whose example queries are
+   *     matched against.
+   * @param intents The commands that can be run locally.
+   * @param options See IntentMatcherOptions.
+   */
+  constructor(
+    tasks: AssistantTask[],
+    private readonly intents: LocalIntent[],
+    options: IntentMatcherOptions = {},
+  ) {
+    this.maskSlots = options.maskSlots ?? ((text) => text);
+    for (const task of tasks) {
+      const [functionName, ...rest] = task.functionCallSequence ?? [];
+      const intent =
+        rest.length === 0
+          ? intents.find((candidate) => candidate.functionName === functionName)
+          : undefined;
+      // Tasks without a local intent are matched too, so that e.g. a question
+      // about a recipe isn't mistaken for a request to open it
+      this.addExamples(task.exampleQueries ?? [], intent ?? task);
+    }
+    for (const intent of intents) {
+      this.addExamples(intent.examples ?? [], intent);
+    }
+  }
+
+  /**
+   * Finds the local intent that best matches a message.
+   * @param text The user's message.
+   * @returns The match, or null if no intent matches unambiguously or its
+   *     arguments can't be filled in.
+   */
+  match(text: string): IntentMatch | null {
+    const words = this.toWords(text);
+    if (words.size === 0) return null;
+
+    // Best score of each intent (or task) over its examples
+    const scores = new Map<LocalIntent | AssistantTask, number>();
+    for (const example of this.examples) {
+      const score = _dice(words, example.words);
+      if (score > (scores.get(example.target) ?? 0)) {
+        scores.set(example.target, score);
+      }
+    }
+    const [best, runnerUp] = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+    if (
+      !best ||
+      !this.intents.includes(best[0] as LocalIntent) ||
+      (runnerUp && best[1] - runnerUp[1] < AMBIGUITY_MARGIN)
+    ) {
+      return null;
+    }
+
+    const intent = best[0] as LocalIntent;
+    const confidence = best[1];
+    const args = intent.extractArgs(text);
+    if (!args) return null;
+    return {intent, args, confidence};
+  }
+
+  private addExamples(
+    examples: string[],
+    target: LocalIntent | AssistantTask,
+  ): void {
+    for (const example of examples) {
+      const words = this.toWords(example);
+      if (words.size > 0) {
+        this.examples.push({target, words});
+      }
+    }
+  }
+
+  private toWords(text: string): Set<string> {
+    return new Set(
+      this.maskSlots(text)
+        .toLowerCase()
+        .replace(/[’']/g, '')
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((word) => word && !STOP_WORDS.has(word))
+        .map(_stem),
+    );
+  }
+}
+
+/**
+ * Strips a plural 's' so that "recipes" matches "recipe".
+ */
+function _stem(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss')
+    ? word.slice(0, -1)
+    : word;
+}
+
+/**
+ * Dice coefficient of two word sets, from 0 (disjoint) to 1 (equal).
+ */
+function _dice(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return (2 * shared) / (a.size + b.size);
+}
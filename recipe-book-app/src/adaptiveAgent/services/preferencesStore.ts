@@ -0,0 +1,235 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import EventEmitter from 'eventemitter3';
+
+/**
+ * How the user wants the agent to talk to them. Unset preferences leave the
+ * choice to the model.
+ */
+export interface AgentPreferences {
+  verbosity?: 'concise' | 'normal' | 'detailed';
+  tone?: 'friendly' | 'neutral' | 'formal';
+  readingLevel?: 'simple' | 'standard' | 'advanced';
+  units?: 'metric' | 'imperial';
+  /** The language to answer in, e.g. 'Spanish'. */
+  language?: string;
+}
+
+export type AgentPreferenceName = keyof AgentPreferences;
+
+/**
+ * The allowed values of each preference, and how each is put to the model.
+ * Null allows any non-empty text.
+ */
+const PREFERENCE_VALUES: Record<
+  AgentPreferenceName,
+  Record<string, string> | null
+> = {
+  verbosity: {
+    concise: 'concise: answer in one or two short sentences',
+    normal: 'normal',
+    detailed: 'detailed: explain fully, including steps and reasons',
+  },
+  tone: {
+    friendly: 'friendly and warm',
+    neutral: 'neutral',
+    formal: 'formal and polite',
+  },
+  readingLevel: {
+    simple: 'simple: short sentences and everyday words',
+    standard: 'standard',
+    advanced: 'advanced: technical terms are fine',
+  },
+  units: {
+    metric: 'metric (grams, milliliters, Celsius)',
+    imperial: 'imperial (ounces, cups, Fahrenheit)',
+  },
+  language: null,
+};
+
+export const AGENT_PREFERENCE_NAMES = Object.keys(
+  PREFERENCE_VALUES,
+) as AgentPreferenceName[];
+
+const STORAGE_KEY = 'agentPreferences';
+const EXPORT_VERSION = 1;
+
+/**
+ * The import/export format: `{"version": 1, "preferences": {...}}`.
+ */
+export interface AgentPreferencesExport {
+  version: number;
+  preferences: AgentPreferences;
+}
+
+/**
+ * Defines the events emitted by the PreferencesStore.
+ */
+export type PreferencesStoreEvent = 'change';
+
+/**
+ * The user's preferences for the agent, kept in localStorage.
+ */
+export class PreferencesStore extends EventEmitter<PreferencesStoreEvent> {
+  // What the user chose; only these are saved
+  private overrides: AgentPreferences;
+
+  /**
+   * @param defaults Preferences to use where the user hasn't chosen any.
+   */
+  constructor(private readonly defaults: AgentPreferences = {}) {
+    super();
+    this.overrides = this.load();
+  }
+
+  get(): AgentPreferences {
+    return {...this.defaults, ...this.overrides};
+  }
+
+  /**
+   * Sets a preference and saves it.
+   * @param value The new value, or null to go back to the default.
+   * @throws Error If the value isn't allowed for this preference.
+   */
+  set(name: AgentPreferenceName, value: string | null): void {
+    const overrides: Record<string, string> = {...this.overrides};
+    if (value === null) {
+      delete overrides[name];
+    } else {
+      const error = _checkValue(name, value);
+      if (error) {
+        throw new Error(error);
+      }
+      overrides[name] = value.trim();
+    }
+    this.update(overrides);
+  }
+
+  /**
+   * Goes back to the default preferences.
+   */
+  reset(): void {
+    this.update({});
+  }
+
+  /**
+   * Serializes the preferences, e.g. to move them to another browser.
+   */
+  export(): string {
+    const data: AgentPreferencesExport = {
+      version: EXPORT_VERSION,
+      preferences: this.get(),
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Replaces the preferences with exported ones.
+   * @param json The output of export().
+   * @throws Error If the JSON is malformed or has values that aren't allowed;
+   *     the preferences are left unchanged.
+   */
+  import(json: string): void {
+    const data = JSON.parse(json) as Partial<AgentPreferencesExport>;
+    if (
+      data?.version !== EXPORT_VERSION ||
+      typeof data.preferences !== 'object'
+    ) {
+      throw new Error('Not an agent preferences export.');
+    }
+    this.update(_sanitize(data.preferences, true));
+  }
+
+  /**
+   * The preferences as the SystemInstructionsFactory lists them.
+   */
+  toUserPreferences(): Record<string, string> {
+    const userPreferences: Record<string, string> = {};
+    const preferences = this.get();
+    for (const name of AGENT_PREFERENCE_NAMES) {
+      const value = preferences[name];
+      if (value) {
+        userPreferences[name] = PREFERENCE_VALUES[name]?.[value] ?? value;
+      }
+    }
+    return userPreferences;
+  }
+
+  private update(overrides: AgentPreferences): void {
+    this.overrides = overrides;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+    } catch (error) {
+      console.warn('Failed to save agent preferences:', error);
+    }
+    this.emit('change', this.get());
+  }
+
+  private load(): AgentPreferences {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? _sanitize(JSON.parse(saved), false) : {};
+    } catch (error) {
+      console.warn('Ignoring unreadable agent preferences:', error);
+      return {};
+    }
+  }
+}
+
+/**
+ * Describes the allowed values of a preference, e.g. for a tool declaration.
+ */
+export function describePreferenceValues(name: AgentPreferenceName): string {
+  const values = PREFERENCE_VALUES[name];
+  return values ? Object.keys(values).join(', ') : 'any';
+}
+
+/**
+ * @returns Why the value isn't allowed, or null if it is.
+ */
+function _checkValue(name: AgentPreferenceName, value: unknown): string | null {
+  if (!_hasKey(PREFERENCE_VALUES, name)) {
+    return `Unknown preference "${name}".`;
+  }
+  const values = PREFERENCE_VALUES[name];
+  if (typeof value !== 'string' || !value.trim()) {
+    return `The ${name} preference must be text.`;
+  }
+  if (values && !_hasKey(values, value)) {
+    return `The ${name} preference must be one of: ${Object.keys(values).join(', ')}.`;
+  }
+  return null;
+}
+
+function _hasKey(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * Keeps the known preferences with allowed values.
+ * @param strict Whether to throw on anything else instead of dropping it.
+ */
+function _sanitize(data: unknown, strict: boolean): AgentPreferences {
+  const preferences: Record<string, string> = {};
+  for (const [name, value] of Object.entries(data ?? {})) {
+    const error = _checkValue(name as AgentPreferenceName, value);
+    if (!error) {
+      preferences[name] = (value as string).trim();
+    } else if (strict) {
+      throw new Error(error);
+    }
+  }
+  return preferences as AgentPreferences;
+}
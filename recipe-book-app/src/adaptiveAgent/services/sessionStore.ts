@@ -0,0 +1,121 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {Content} from '@google/generative-ai';
+
+export interface SessionStoreOptions {
+  /**
+   * How long a conversation is kept after its last message. Older ones are
+   * forgotten instead of restored. Defaults to 24 hours.
+   */
+  maxAgeMs?: number;
+  /** The localStorage key. Defaults to 'agentSession'. */
+  storageKey?: string;
+}
+
+/**
+ * The saved format. The version changes whenever the format does; sessions
+ * saved in another version are discarded.
+ */
+interface SavedSession {
+  version: number;
+  /** When the last message was saved, in ms since the epoch. */
+  savedAt: number;
+  /** The chat, including function call and response turns. */
+  history: Content[];
+}
+
+const SESSION_VERSION = 1;
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_STORAGE_KEY = 'agentSession';
+
+/**
+ * Keeps the conversation with the model in localStorage, so it can be
+ * restored after the agent is toggled or the page is reloaded.
+ */
+export class SessionStore {
+  private readonly maxAgeMs: number;
+  private readonly storageKey: string;
+
+  constructor(options: SessionStoreOptions = {}) {
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+  }
+
+  /**
+   * Loads the saved conversation. Expired, outdated or unreadable sessions
+   * are deleted.
+   * @returns The history, or an empty one if there is nothing to restore.
+   */
+  load(): Content[] {
+    let session: Partial<SavedSession> | null = null;
+    try {
+      const saved = localStorage.getItem(this.storageKey);
+      session = saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.warn('Discarding unreadable agent session:', error);
+      this.clear();
+    }
+    if (!session) {
+      return [];
+    }
+    if (
+      session.version !== SESSION_VERSION ||
+      !Array.isArray(session.history) ||
+      typeof session.savedAt !== 'number'
+    ) {
+      console.warn('Discarding agent session saved in another format.');
+      this.clear();
+      return [];
+    }
+    if (Date.now() - session.savedAt > this.maxAgeMs) {
+      console.log('Agent session expired; starting a new conversation.');
+      this.clear();
+      return [];
+    }
+    return session.history;
+  }
+
+  /**
+   * Saves the conversation, replacing the saved one.
+   */
+  save(history: Content[]): void {
+    if (history.length === 0) {
+      this.clear();
+      return;
+    }
+    const session: SavedSession = {
+      version: SESSION_VERSION,
+      savedAt: Date.now(),
+      history,
+    };
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(session));
+    } catch (error) {
+      // E.g. the storage quota is exceeded; the session just won't survive
+      console.warn('Failed to save agent session:', error);
+    }
+  }
+
+  /**
+   * Deletes the saved conversation.
+   */
+  clear(): void {
+    try {
+      localStorage.removeItem(this.storageKey);
+    } catch (error) {
+      console.warn('Failed to delete agent session:', error);
+    }
+  }
+}
@@ -12,22 +12,99 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import EventEmitter from 'eventemitter3';
+import {AudioLevelMeter} from './audioLevelMeter';
+
+/**
+ * Defines the events emitted by the SpeechToTextService.
+ * - 'interimResult': Live, not yet final text (string).
+ * - 'utterance': A complete utterance detected in continuous mode (string).
+ * - 'speechWhileMuted': The user started speaking while continuous mode was
+ *   muted, e.g. to interrupt the agent (barge-in).
+ * - 'error': A recognition error code (string).
+ */
+export type SpeechToTextEvent =
+  | 'interimResult'
+  | 'utterance'
+  | 'speechWhileMuted'
+  | 'error';
+
+/**
+ * Options for continuous (hands-free) listening.
+ */
+export interface ContinuousListeningOptions {
+  /** Silence after speech that ends an utterance. Defaults to 1200 ms. */
+  silenceMs?: number;
+  /**
+   * Microphone level (RMS, 0 to 1) above which the user counts as speaking.
+   * Defaults to 0.02.
+   */
+  levelThreshold?: number;
+  /**
+   * Microphone level above which the user counts as speaking while muted.
+   * Higher than `levelThreshold` so that the agent's own voice leaking into
+   * the microphone is less likely to count. Defaults to 0.08.
+   */
+  bargeInLevelThreshold?: number;
+  /**
+   * How long the level must stay above `bargeInLevelThreshold` before
+   * 'speechWhileMuted' is emitted. Defaults to 300 ms.
+   */
+  bargeInMinMs?: number;
+}
+
+const DEFAULT_SILENCE_MS = 1200;
+const DEFAULT_LEVEL_THRESHOLD = 0.02;
+const DEFAULT_BARGE_IN_LEVEL_THRESHOLD = 0.08;
+const DEFAULT_BARGE_IN_MIN_MS = 300;
+const SILENCE_CHECK_INTERVAL_MS = 100;
+const RESTART_DELAY_MS = 100;
+// Background noise can keep the level above the threshold; give up waiting
+// for quiet after this many silence periods without new recognition results.
+const MAX_SILENCE_PERIODS_WITHOUT_RESULTS = 3;
+// Errors that are part of normal continuous operation
+const IGNORED_CONTINUOUS_ERRORS = ['no-speech', 'aborted'];
+// Errors after which restarting recognition is pointless
+const FATAL_ERRORS = ['not-allowed', 'service-not-allowed', 'audio-capture'];
+
 /**
  * Service for converting speech to text using the browser's Web Speech API.
  * Manages the microphone access and recognition lifecycle.
+ *
+ * Supports two modes: push-to-talk, driven by start()/stop(), and continuous
+ * (hands-free) listening, where the end of each utterance is detected from
+ * silence and emitted as an 'utterance' event.
  */
 export class SpeechToTextService {
   private recognition: SpeechRecognition | null = null;
   private isListening = false;
+  // start() was called and the recognizer hasn't reported onstart yet
+  private isStarting = false;
   private finalTranscript = '';
   // Stores the resolve/reject functions for the promise returned by stop()
   private stopPromiseResolver: ((transcript: string) => void) | null = null;
   private stopPromiseRejecter: ((reason?: string | Error) => void) | null =
     null;
 
-  // Optional: For emitting events (e.g., for live feedback)
-  // You could integrate EventEmitter3 here as well if needed
-  // public events = new EventEmitter(); // Example
+  // --- Continuous Mode State ---
+  private isContinuousMode = false;
+  private isMuted = false;
+  private interimTranscript = '';
+  private lastActivityTime = 0;
+  private lastResultTime = 0;
+  private silenceMs = DEFAULT_SILENCE_MS;
+  private levelThreshold = DEFAULT_LEVEL_THRESHOLD;
+  private bargeInLevelThreshold = DEFAULT_BARGE_IN_LEVEL_THRESHOLD;
+  private bargeInMinMs = DEFAULT_BARGE_IN_MIN_MS;
+  // While muted: when the level rose above the barge-in threshold
+  private loudSinceTime: number | null = null;
+  private hasReportedSpeechWhileMuted = false;
+  private silenceCheckIntervalId: number | null = null;
+  private restartTimeoutId: number | null = null;
+  private levelMeter = new AudioLevelMeter();
+
+  /** Emits live feedback and, in continuous mode, complete utterances. */
+  readonly events = new EventEmitter<SpeechToTextEvent>();
 
   constructor(lang = 'en-US') {
     // Allow language configuration
@@ -72,6 +149,97 @@ export class SpeechToTextService {
     return this.isListening;
   }
 
+  /**
+   * Checks if continuous (hands-free) listening is active.
+   */
+  isContinuous(): boolean {
+    return this.isContinuousMode;
+  }
+
+  /**
+   * Starts continuous listening. Each utterance is detected from silence,
+   * using both the recognizer's results and the microphone level, and is
+   * emitted as an 'utterance' event. Recognition restarts automatically.
+   * @param options Silence detection settings.
+   */
+  async startContinuous(options: ContinuousListeningOptions = {}): Promise<void> {
+    if (!this.recognition) {
+      console.warn('SpeechRecognition not supported or initialized.');
+      return;
+    }
+    if (this.isContinuousMode) return;
+    if (this.isListening || this.isStarting) {
+      this.abort(); // Leave push-to-talk mode
+    }
+
+    this.isContinuousMode = true;
+    this.isMuted = false;
+    this.silenceMs = options.silenceMs ?? DEFAULT_SILENCE_MS;
+    this.levelThreshold = options.levelThreshold ?? DEFAULT_LEVEL_THRESHOLD;
+    this.bargeInLevelThreshold =
+      options.bargeInLevelThreshold ?? DEFAULT_BARGE_IN_LEVEL_THRESHOLD;
+    this.bargeInMinMs = options.bargeInMinMs ?? DEFAULT_BARGE_IN_MIN_MS;
+    this._resetUtterance();
+
+    // The level meter is optional; without it silence is judged from results
+    await this.levelMeter.start();
+    if (!this.isContinuousMode) {
+      this.levelMeter.stop(); // Stopped while the meter was starting
+      return;
+    }
+    this.silenceCheckIntervalId = window.setInterval(
+      () => this._checkForEndOfUtterance(),
+      SILENCE_CHECK_INTERVAL_MS,
+    );
+    if (!this.isMuted) {
+      this._startRecognition(); // Otherwise started when unmuted
+    }
+  }
+
+  /**
+   * Stops continuous listening and discards any unfinished utterance.
+   */
+  stopContinuous(): void {
+    if (!this.isContinuousMode) return;
+    this.isContinuousMode = false;
+    this.isMuted = false;
+    if (this.silenceCheckIntervalId !== null) {
+      clearInterval(this.silenceCheckIntervalId);
+      this.silenceCheckIntervalId = null;
+    }
+    if (this.restartTimeoutId !== null) {
+      clearTimeout(this.restartTimeoutId);
+      this.restartTimeoutId = null;
+    }
+    this.levelMeter.stop();
+    this._resetUtterance();
+    if (this.isListening) {
+      this.recognition?.abort();
+    }
+  }
+
+  /**
+   * Mutes or unmutes continuous listening, e.g. while the agent is speaking,
+   * so that it doesn't transcribe its own voice. Muting stops recognition and
+   * discards the unfinished utterance; unmuting restarts it. While muted, the
+   * microphone level is still watched and loud, sustained speech is reported
+   * as a 'speechWhileMuted' event.
+   */
+  setMuted(muted: boolean): void {
+    if (!this.isContinuousMode || this.isMuted === muted) return;
+    this.isMuted = muted;
+    this.loudSinceTime = null;
+    this.hasReportedSpeechWhileMuted = false;
+    this._resetUtterance();
+    if (muted) {
+      if (this.isListening) {
+        this.recognition?.abort();
+      }
+    } else {
+      this._startRecognition();
+    }
+  }
+
   /**
    * Starts listening to the microphone and recognizing speech.
    * Requires microphone permission from the user on the first call.
@@ -81,7 +249,7 @@ export class SpeechToTextService {
       console.warn('SpeechRecognition not supported or initialized.');
       return;
     }
-    if (this.isListening) {
+    if (this.isListening || this.isStarting || this.isContinuousMode) {
       console.warn('Speech recognition is already active.');
       return;
     }
@@ -95,6 +263,7 @@ export class SpeechToTextService {
 
     try {
       this.recognition.start();
+      this.isStarting = true;
       console.log('Speech recognition starting...');
     } catch (error) {
       console.error('Error starting speech recognition:', error);
@@ -116,7 +285,8 @@ export class SpeechToTextService {
       console.warn('SpeechRecognition not supported or initialized.');
       return Promise.reject('SpeechRecognition not supported.');
     }
-    if (!this.isListening) {
+    // Stopping before onstart still ends the session that is starting
+    if (!this.isListening && !this.isStarting) {
       console.warn('Speech recognition is not currently active.');
       return Promise.resolve(this.finalTranscript);
     }
@@ -146,7 +316,7 @@ export class SpeechToTextService {
       console.warn('SpeechRecognition not supported or initialized.');
       return;
     }
-    if (!this.isListening) {
+    if (!this.isListening && !this.isStarting) {
       console.warn('Speech recognition is not currently active.');
       return;
     }
@@ -164,11 +334,13 @@ export class SpeechToTextService {
   // --- Private Event Handlers ---
 
   private _onStart(): void {
+    this.isStarting = false;
     this.isListening = true;
     console.log('Speech recognition started successfully.');
   }
 
   private _onResult(event: SpeechRecognitionEvent): void {
+    if (this.isContinuousMode && this.isMuted) return;
     let interim = '';
     for (let i = event.resultIndex; i < event.results.length; ++i) {
       if (event.results[i].isFinal) {
@@ -178,19 +350,41 @@ export class SpeechToTextService {
         interim += event.results[i][0].transcript;
       }
     }
+    this.interimTranscript = interim;
+    this.lastActivityTime = this.lastResultTime = Date.now();
     this.events.emit('interimResult', interim);
   }
 
   private _onError(event: SpeechRecognitionErrorEvent): void {
+    if (
+      this.isContinuousMode &&
+      IGNORED_CONTINUOUS_ERRORS.includes(event.error)
+    ) {
+      return; // Recognition restarts from _onEnd
+    }
     console.error('Speech recognition error:', event.error, event.message);
     this.isListening = false;
+    this.isStarting = false;
     this._rejectPendingStopPromise(event.error);
+    if (this.isContinuousMode && FATAL_ERRORS.includes(event.error)) {
+      this.stopContinuous();
+    }
     this.events.emit('error', event.error);
   }
 
   private _onEnd(): void {
     console.log('Speech recognition ended.');
     this.isListening = false;
+    this.isStarting = false;
+
+    if (this.isContinuousMode) {
+      // The recognizer ends on its own after a while, and after each
+      // utterance (see _emitUtterance); keep listening unless muted.
+      if (!this.isMuted) {
+        this._scheduleRestart();
+      }
+      return;
+    }
 
     if (this.stopPromiseResolver) {
       this.stopPromiseResolver(this.finalTranscript.trim());
@@ -203,6 +397,89 @@ export class SpeechToTextService {
     this.stopPromiseRejecter = null;
   }
 
+  // --- Private Continuous Mode Helpers ---
+
+  private _startRecognition(): void {
+    if (!this.recognition || this.isListening) return;
+    try {
+      this.recognition.start();
+    } catch (error) {
+      // Throws if a previous session is still shutting down; onend restarts
+      console.warn('Could not start speech recognition yet:', error);
+    }
+  }
+
+  private _scheduleRestart(): void {
+    if (this.restartTimeoutId !== null) return;
+    this.restartTimeoutId = window.setTimeout(() => {
+      this.restartTimeoutId = null;
+      if (this.isContinuousMode && !this.isMuted) {
+        this._startRecognition();
+      }
+    }, RESTART_DELAY_MS);
+  }
+
+  private _resetUtterance(): void {
+    this.finalTranscript = '';
+    this.interimTranscript = '';
+    this.lastActivityTime = this.lastResultTime = Date.now();
+  }
+
+  /**
+   * Runs periodically in continuous mode. The user counts as still speaking
+   * while the recognizer produces results or the microphone level is above
+   * the threshold; once both have been quiet for `silenceMs`, the utterance
+   * is complete.
+   */
+  private _checkForEndOfUtterance(): void {
+    const now = Date.now();
+    if (this.isMuted) {
+      this._checkForSpeechWhileMuted(now);
+      return;
+    }
+    if (this.levelMeter.getLevel() > this.levelThreshold) {
+      this.lastActivityTime = now;
+    }
+
+    const transcript = `${this.finalTranscript}${this.interimTranscript}`.trim();
+    if (!transcript) return;
+
+    const isSilent = now - this.lastActivityTime >= this.silenceMs;
+    const isStalled =
+      now - this.lastResultTime >=
+      this.silenceMs * MAX_SILENCE_PERIODS_WITHOUT_RESULTS;
+    if (isSilent || isStalled) {
+      this._emitUtterance(transcript);
+    }
+  }
+
+  /**
+   * Reports speech once per muted period, when the level has stayed above
+   * the barge-in threshold for `bargeInMinMs`.
+   */
+  private _checkForSpeechWhileMuted(now: number): void {
+    if (this.hasReportedSpeechWhileMuted) return;
+    if (this.levelMeter.getLevel() <= this.bargeInLevelThreshold) {
+      this.loudSinceTime = null;
+      return;
+    }
+    this.loudSinceTime ??= now;
+    if (now - this.loudSinceTime >= this.bargeInMinMs) {
+      this.hasReportedSpeechWhileMuted = true;
+      this.events.emit('speechWhileMuted');
+    }
+  }
+
+  private _emitUtterance(transcript: string): void {
+    this._resetUtterance();
+    // Restart recognition so results still pending for this utterance are
+    // discarded rather than leaking into the next one.
+    if (this.isListening) {
+      this.recognition?.abort();
+    }
+    this.events.emit('utterance', transcript);
+  }
+
   /** Safely rejects the pending promise from stop() and clears handlers */
   private _rejectPendingStopPromise(reason: string | Error): void {
     if (this.stopPromiseRejecter) {
@@ -216,8 +493,10 @@ export class SpeechToTextService {
    * Cleans up the recognition instance if needed.
    */
   destroy(): void {
+    this.stopContinuous();
+    this.events.removeAllListeners();
     if (this.recognition) {
-      if (this.isListening) {
+      if (this.isListening || this.isStarting) {
         this.recognition.abort();
       }
       this.recognition.onstart = null;
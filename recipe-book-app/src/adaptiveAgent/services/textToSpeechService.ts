@@ -12,11 +12,26 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import EventEmitter from 'eventemitter3';
+
+/**
+ * Defines the events emitted by the TextToSpeechService.
+ * - 'start': An utterance started playing.
+ * - 'end': An utterance finished, failed or was stopped.
+ */
+export type TextToSpeechEvent = 'start' | 'end';
+
+// Utterance errors that mean the speech was stopped, not that it failed
+const STOPPED_ERRORS: string[] = ['interrupted', 'canceled'];
+
 /**
  * Service for synthesizing speech from text using the browser's Web Speech API.
  * Manages voice loading, speaking state, and allows configuration of voice properties.
  */
 export class TextToSpeechService {
+  /** Emits utterance start and end, e.g. to mute the microphone meanwhile. */
+  readonly events = new EventEmitter<TextToSpeechEvent>();
+
   private synth: SpeechSynthesis | null = null;
   private voices: SpeechSynthesisVoice[] = [];
   private selectedVoice: SpeechSynthesisVoice | null = null;
@@ -37,6 +52,10 @@ export class TextToSpeechService {
   private speakPromiseResolver: (() => void) | null = null;
   private speakPromiseRejecter: ((reason?: string) => void) | null = null;
 
+  // Tail of the queue used by enqueue(); bumping the generation drops queued text
+  private queueTail: Promise<void> = Promise.resolve();
+  private queueGeneration = 0;
+
   constructor() {
     this.voicesLoadedPromise = new Promise<void>((resolve, reject) => {
       this.voicesLoadedResolver = resolve;
@@ -154,7 +173,8 @@ export class TextToSpeechService {
    * Waits for voices to be loaded if they haven't been already.
    * Stops any currently speaking utterance before starting the new one.
    * @param text The string of text to speak.
-   * @returns A promise that resolves when speaking finishes, or rejects on error/stop.
+   * @returns A promise that resolves when speaking finishes or is stopped,
+   *     or rejects on error.
    */
   async speak(text: string): Promise<void> {
     if (!this.isSupported()) {
@@ -165,39 +185,82 @@ export class TextToSpeechService {
     } catch (error) {
       return Promise.reject(`Failed to load voices: ${error}`);
     }
+    // Drop anything still waiting in the enqueue() queue
+    this.queueGeneration++;
     if (this.isSpeakingFlag || this.synth!.pending) {
       console.log('Stopping previous speech before starting new one.');
       this.stop();
     }
+    // Bumped by stop() and the next speak(), which end this one
+    const generation = this.queueGeneration;
 
     // Split the text into chunks to avoid exceeding the character limit
     const [chunks, unmatched] = this.splitByPunctuation(text);
+    // If there is any unmatched text, speak it separately.
+    if (unmatched.length > 0) {
+      chunks.push(unmatched);
+    }
     // For every chunk, speak it and wait for it to finish.
     for (const chunk of chunks) {
+      if (generation !== this.queueGeneration) return;
       await this._speak(chunk);
     }
-    // If there is any unmatched text, speak it separately.
-    if (unmatched.length > 0) {
-      await this._speak(unmatched);
+  }
+
+  /**
+   * Queues text to be spoken after anything already queued, without
+   * interrupting the current utterance. Used for streamed responses, where
+   * sentences arrive one at a time. Queued text is dropped by stop() or speak().
+   * @param text The string of text to speak.
+   * @returns A promise that resolves when this text finishes speaking.
+   */
+  enqueue(text: string): Promise<void> {
+    if (!this.isSupported()) {
+      return Promise.reject('Speech Synthesis not supported.');
     }
+    const generation = this.queueGeneration;
+    const result = this.queueTail.then(async () => {
+      if (generation !== this.queueGeneration) return;
+      try {
+        await this.voicesLoadedPromise;
+      } catch (error) {
+        throw `Failed to load voices: ${error}`;
+      }
+      const [chunks, unmatched] = this.splitByPunctuation(text);
+      if (unmatched.trim().length > 0) {
+        chunks.push(unmatched);
+      }
+      for (const chunk of chunks) {
+        if (generation !== this.queueGeneration) return;
+        await this._speak(chunk);
+      }
+    });
+    // Keep the queue alive even if this item fails or is interrupted
+    this.queueTail = result.catch(() => {});
+    return result;
   }
 
   /**
-   * Stops the currently speaking utterance and clears the queue.
-   * Rejects the promise associated with the stopped utterance.
+   * Stops the currently speaking utterance and clears the queue. The promise
+   * of the stopped text resolves, as stopping is not an error.
    */
   stop(): void {
     if (!this.isSupported()) return;
+    this.queueGeneration++;
     if (this.synth!.speaking || this.synth!.pending || this.isSpeakingFlag) {
       console.log('Stopping speech.');
-      this._rejectPendingSpeakPromise('Speech interrupted by stop() call.');
+      this._resolvePendingSpeakPromise();
       this.synth!.cancel();
       this.isSpeakingFlag = false;
       this.currentUtterance = null;
+      this.events.emit('end');
     }
   }
 
   private _speak(text: string): Promise<void> {
+    // A chunk of speak() may still be playing when an enqueue() item starts;
+    // settle it instead of leaving its caller waiting
+    this._resolvePendingSpeakPromise();
     return new Promise<void>((resolve, reject) => {
       this.speakPromiseResolver = resolve;
       this.speakPromiseRejecter = reject;
@@ -312,12 +375,18 @@ export class TextToSpeechService {
   }
 
   // --- Private Utterance Event Handlers ---
+  // Events of utterances cancelled by stop() can arrive late, while the next
+  // text is speaking, and are ignored.
 
-  private _onUtteranceStart(): void {
+  private _onUtteranceStart(event: SpeechSynthesisEvent): void {
+    if (event.utterance !== this.currentUtterance) return;
     this.isSpeakingFlag = true;
+    this.events.emit('start');
   }
 
-  private _onUtteranceEnd(): void {
+  private _onUtteranceEnd(event: SpeechSynthesisEvent): void {
+    if (event.utterance !== this.currentUtterance) return;
+    this.events.emit('end');
     if (this.speakPromiseResolver) {
       this.isSpeakingFlag = false;
       this.speakPromiseResolver();
@@ -331,7 +400,14 @@ export class TextToSpeechService {
   }
 
   private _onUtteranceError(event: SpeechSynthesisErrorEvent): void {
+    if (event.utterance !== this.currentUtterance) return;
+    if (STOPPED_ERRORS.includes(event.error)) {
+      // Cancelled on purpose, e.g. by another speechSynthesis.cancel()
+      this._onUtteranceEnd(event);
+      return;
+    }
     console.error('Speech synthesis error:', event.error, event);
+    this.events.emit('end');
     if (this.speakPromiseRejecter) {
       this.isSpeakingFlag = false;
       this.speakPromiseRejecter(event.error);
@@ -344,6 +420,15 @@ export class TextToSpeechService {
     }
   }
 
+  /** Resolves the pending promise from speak() early and clears handlers */
+  private _resolvePendingSpeakPromise(): void {
+    if (this.speakPromiseResolver) {
+      this.speakPromiseResolver();
+      this.speakPromiseResolver = null;
+      this.speakPromiseRejecter = null;
+    }
+  }
+
   /** Safely rejects the pending promise from speak() and clears handlers */
   private _rejectPendingSpeakPromise(reason: string): void {
     if (this.speakPromiseRejecter) {
@@ -359,6 +444,7 @@ export class TextToSpeechService {
   destroy(): void {
     if (!this.isSupported()) return;
     this.stop();
+    this.events.removeAllListeners();
     this.synth!.onvoiceschanged = null;
     console.log('TextToSpeechService destroyed.');
   }
@@ -0,0 +1,379 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * The kind of a transcript entry, used for its label.
+ */
+export type TranscriptEntryKind = 'user' | 'agent' | 'tool' | 'error' | 'system';
+
+/**
+ * A single line of the conversation transcript.
+ */
+export interface TranscriptEntry {
+  kind: TranscriptEntryKind;
+  text: string;
+  timestamp: Date;
+}
+
+const ENTRY_LABELS: Record<TranscriptEntryKind, string> = {
+  user: 'You',
+  agent: 'Agent',
+  tool: 'Action',
+  error: 'Error',
+  system: 'Info',
+};
+
+const ENTRY_COLORS: Record<TranscriptEntryKind, string> = {
+  user: '#8ab4f8',
+  agent: '#81c995',
+  tool: '#fdd663',
+  error: '#f28b82',
+  system: '#bdc1c6',
+};
+
+/**
+ * A service that keeps the full history of the conversation and shows it in
+ * an accessible, keyboard-navigable panel. Unlike captions, entries are never
+ * replaced, so users can scroll back through everything that was said.
+ * All styling is self-contained.
+ */
+export class TranscriptService {
+  private entries: TranscriptEntry[] = [];
+  private panelElement: HTMLElement | null = null;
+  private listElement: HTMLOListElement | null = null;
+  private statusElement: HTMLElement | null = null;
+  // Element that had focus before the panel opened, restored on close
+  private previousFocus: HTMLElement | null = null;
+
+  private _onListKeyDownRef = this._onListKeyDown.bind(this);
+  private _onPanelKeyDownRef = this._onPanelKeyDown.bind(this);
+
+  /**
+   * Records an entry and appends it to the panel if it is open.
+   * @param kind The kind of entry, e.g. 'user' for something the user said.
+   * @param text The text of the entry.
+   */
+  addEntry(kind: TranscriptEntryKind, text: string): void {
+    const entry: TranscriptEntry = {kind, text, timestamp: new Date()};
+    this.entries.push(entry);
+    if (this.listElement) {
+      this.listElement.appendChild(this._createEntryElement(entry));
+      this._updateRovingTabIndex(this.listElement.lastElementChild);
+      this.listElement.scrollTop = this.listElement.scrollHeight;
+    }
+  }
+
+  /** Gets a copy of all recorded entries, oldest first. */
+  getEntries(): TranscriptEntry[] {
+    return [...this.entries];
+  }
+
+  /** Removes all entries. */
+  clear(): void {
+    this.entries = [];
+    if (this.listElement) {
+      this.listElement.innerHTML = '';
+    }
+    this._announce('Transcript cleared.');
+  }
+
+  /**
+   * Formats the transcript as plain text, one entry per line.
+   */
+  toText(): string {
+    return this.entries
+      .map(
+        (entry) =>
+          `[${entry.timestamp.toLocaleTimeString()}] ${ENTRY_LABELS[entry.kind]}: ${entry.text}`,
+      )
+      .join('\n');
+  }
+
+  /**
+   * Copies the transcript to the clipboard as plain text.
+   * @returns A promise that resolves once copied, or rejects if not permitted.
+   */
+  async copyToClipboard(): Promise<void> {
+    if (!navigator.clipboard) {
+      this._announce('Copying is not supported in this browser.');
+      throw new Error('Clipboard API not supported.');
+    }
+    try {
+      await navigator.clipboard.writeText(this.toText());
+      this._announce('Transcript copied to clipboard.');
+    } catch (error) {
+      this._announce('Could not copy the transcript.');
+      throw error;
+    }
+  }
+
+  /** Checks if the panel is currently shown. */
+  isVisible(): boolean {
+    return this.panelElement !== null;
+  }
+
+  /** Shows the panel if hidden, hides it otherwise. */
+  toggle(): void {
+    if (this.isVisible()) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  /**
+   * Shows the transcript panel and moves focus to the latest entry.
+   */
+  show(): void {
+    if (this.panelElement) return;
+
+    this.previousFocus =
+      document.activeElement instanceof HTMLElement
+        ? document.activeElement
+        : null;
+
+    const panel = document.createElement('section');
+    panel.setAttribute('role', 'region');
+    panel.setAttribute('aria-label', 'Conversation transcript');
+    Object.assign(panel.style, {
+      position: 'fixed',
+      right: '16px',
+      bottom: '16px',
+      width: 'min(420px, calc(100vw - 32px))',
+      maxHeight: '60vh',
+      display: 'flex',
+      flexDirection: 'column',
+      backgroundColor: 'rgba(17, 17, 17, 0.95)',
+      color: 'white',
+      zIndex: '10000',
+      borderRadius: '8px',
+      boxShadow: '0 2px 10px rgba(0, 0, 0, 0.5)',
+      fontSize: '16px',
+      lineHeight: '1.4',
+    } as Partial<CSSStyleDeclaration>);
+
+    const header = document.createElement('div');
+    Object.assign(header.style, {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      padding: '8px 12px',
+      borderBottom: '1px solid #444',
+    } as Partial<CSSStyleDeclaration>);
+
+    const title = document.createElement('h2');
+    title.textContent = 'Transcript';
+    Object.assign(title.style, {
+      flex: '1',
+      margin: '0',
+      fontSize: '18px',
+    } as Partial<CSSStyleDeclaration>);
+    header.appendChild(title);
+    header.appendChild(
+      this._createButton('Copy', 'Copy transcript to clipboard', () => {
+        this.copyToClipboard().catch((error) =>
+          console.error('Failed to copy transcript:', error),
+        );
+      }),
+    );
+    header.appendChild(
+      this._createButton('Clear', 'Clear transcript history', () =>
+        this.clear(),
+      ),
+    );
+    header.appendChild(
+      this._createButton('Close', 'Close transcript', () => this.hide()),
+    );
+
+    const list = document.createElement('ol');
+    list.setAttribute('role', 'log');
+    list.setAttribute('aria-live', 'polite');
+    list.setAttribute(
+      'aria-label',
+      'Conversation history. Use the arrow keys to move between entries.',
+    );
+    Object.assign(list.style, {
+      listStyle: 'none',
+      margin: '0',
+      padding: '8px 12px',
+      overflowY: 'auto',
+      flex: '1',
+    } as Partial<CSSStyleDeclaration>);
+    this.entries.forEach((entry) =>
+      list.appendChild(this._createEntryElement(entry)),
+    );
+    list.addEventListener('keydown', this._onListKeyDownRef);
+
+    // Visually hidden live region for action feedback (copy, clear)
+    const status = document.createElement('div');
+    status.setAttribute('role', 'status');
+    Object.assign(status.style, {
+      position: 'absolute',
+      width: '1px',
+      height: '1px',
+      overflow: 'hidden',
+      clip: 'rect(0 0 0 0)',
+    } as Partial<CSSStyleDeclaration>);
+
+    panel.appendChild(header);
+    panel.appendChild(list);
+    panel.appendChild(status);
+    panel.addEventListener('keydown', this._onPanelKeyDownRef);
+    document.body.appendChild(panel);
+
+    this.panelElement = panel;
+    this.listElement = list;
+    this.statusElement = status;
+
+    const lastEntry = list.lastElementChild as HTMLElement | null;
+    this._updateRovingTabIndex(lastEntry);
+    if (lastEntry) {
+      lastEntry.focus();
+      list.scrollTop = list.scrollHeight;
+    } else {
+      title.setAttribute('tabindex', '-1');
+      title.focus();
+    }
+  }
+
+  /**
+   * Hides the panel and returns focus to where it was before opening.
+   * The entries are kept.
+   */
+  hide(): void {
+    if (!this.panelElement) return;
+    this.listElement?.removeEventListener('keydown', this._onListKeyDownRef);
+    this.panelElement.removeEventListener('keydown', this._onPanelKeyDownRef);
+    this.panelElement.remove();
+    this.panelElement = null;
+    this.listElement = null;
+    this.statusElement = null;
+    this.previousFocus?.focus();
+    this.previousFocus = null;
+  }
+
+  /**
+   * Removes the panel and discards all entries.
+   */
+  destroy(): void {
+    this.hide();
+    this.entries = [];
+  }
+
+  // --- Private Helpers ---
+
+  private _createEntryElement(entry: TranscriptEntry): HTMLLIElement {
+    const item = document.createElement('li');
+    item.setAttribute('tabindex', '-1');
+    Object.assign(item.style, {
+      padding: '4px 0',
+      borderBottom: '1px solid #333',
+    } as Partial<CSSStyleDeclaration>);
+
+    const label = document.createElement('strong');
+    label.textContent = `${ENTRY_LABELS[entry.kind]}: `;
+    label.style.color = ENTRY_COLORS[entry.kind];
+
+    const time = document.createElement('time');
+    time.dateTime = entry.timestamp.toISOString();
+    time.textContent = entry.timestamp.toLocaleTimeString();
+    Object.assign(time.style, {
+      display: 'block',
+      fontSize: '12px',
+      color: '#9aa0a6',
+    } as Partial<CSSStyleDeclaration>);
+
+    item.appendChild(label);
+    item.appendChild(document.createTextNode(entry.text));
+    item.appendChild(time);
+    return item;
+  }
+
+  private _createButton(
+    text: string,
+    label: string,
+    onClick: () => void,
+  ): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = text;
+    button.setAttribute('aria-label', label);
+    Object.assign(button.style, {
+      background: '#333',
+      color: 'white',
+      border: '1px solid #666',
+      borderRadius: '4px',
+      padding: '4px 8px',
+      cursor: 'pointer',
+    } as Partial<CSSStyleDeclaration>);
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  /**
+   * Keeps exactly one entry in the tab order (roving tabindex), so Tab moves
+   * into the list once and the arrow keys move within it.
+   */
+  private _updateRovingTabIndex(activeItem: Element | null): void {
+    if (!this.listElement) return;
+    Array.from(this.listElement.children).forEach((item) =>
+      item.setAttribute('tabindex', item === activeItem ? '0' : '-1'),
+    );
+  }
+
+  /** Handles arrow/Home/End navigation between entries. */
+  private _onListKeyDown(event: KeyboardEvent): void {
+    if (!this.listElement) return;
+    const items = Array.from(this.listElement.children) as HTMLElement[];
+    if (items.length === 0) return;
+
+    const currentIndex = items.indexOf(document.activeElement as HTMLElement);
+    let nextIndex: number;
+    switch (event.key) {
+      case 'ArrowDown':
+        nextIndex = Math.min(currentIndex + 1, items.length - 1);
+        break;
+      case 'ArrowUp':
+        nextIndex = Math.max(currentIndex - 1, 0);
+        break;
+      case 'Home':
+        nextIndex = 0;
+        break;
+      case 'End':
+        nextIndex = items.length - 1;
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    this._updateRovingTabIndex(items[nextIndex]);
+    items[nextIndex].focus();
+  }
+
+  /** Closes the panel on Escape. */
+  private _onPanelKeyDown(event: KeyboardEvent): void {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      event.stopPropagation();
+      this.hide();
+    }
+  }
+
+  private _announce(message: string): void {
+    if (this.statusElement) {
+      this.statusElement.textContent = message;
+    }
+  }
+}
@@ -0,0 +1,92 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * An action that can be taken back, recorded by the tool that performed it.
+ */
+export interface UndoableAction {
+  /**
+   * What the action did, phrased to follow "Undid" or "Redid", e.g.
+   * 'turning on dark mode'.
+   */
+  description: string;
+  /** Restores the state from before the action. */
+  undo(): void | Promise<void>;
+  /** Performs the action again after it was undone. */
+  redo(): void | Promise<void>;
+}
+
+const DEFAULT_MAX_SIZE = 50;
+
+/**
+ * Undo and redo history for the actions the agent performed.
+ */
+export class UndoStack {
+  private readonly done: UndoableAction[] = [];
+  private readonly undone: UndoableAction[] = [];
+
+  /**
+   * @param maxSize How many actions to remember; the oldest are dropped.
+   */
+  constructor(private readonly maxSize = DEFAULT_MAX_SIZE) {}
+
+  /**
+   * Records a new action. Actions that were undone can no longer be redone.
+   */
+  record(action: UndoableAction): void {
+    this.done.push(action);
+    if (this.done.length > this.maxSize) {
+      this.done.shift();
+    }
+    this.undone.length = 0;
+  }
+
+  /**
+   * Undoes the most recent action. If undoing fails, the action is dropped.
+   * @returns The action that was undone, or null if there was none.
+   */
+  async undo(): Promise<UndoableAction | null> {
+    const action = this.done.pop();
+    if (!action) return null;
+    await action.undo();
+    this.undone.push(action);
+    return action;
+  }
+
+  /**
+   * Redoes the most recently undone action. If redoing fails, the action is
+   * dropped.
+   * @returns The action that was redone, or null if there was none.
+   */
+  async redo(): Promise<UndoableAction | null> {
+    const action = this.undone.pop();
+    if (!action) return null;
+    await action.redo();
+    this.done.push(action);
+    return action;
+  }
+
+  canUndo(): boolean {
+    return this.done.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.undone.length > 0;
+  }
+
+  clear(): void {
+    this.done.length = 0;
+    this.undone.length = 0;
+  }
+}
@@ -0,0 +1,134 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * The result of looking for the wake phrase in a transcript.
+ */
+export interface WakePhraseMatch {
+  /** Whether the wake phrase was found. */
+  matched: boolean;
+  /** What was said after the wake phrase, e.g. a command in the same breath. */
+  remainder: string;
+}
+
+// At sensitivity 0 a window must match the phrase exactly; at sensitivity 1
+// it may differ in this fraction of its characters.
+const MAX_EDIT_RATIO = 0.5;
+
+/**
+ * Finds a wake phrase such as "Hey Chef" in recognized speech. Recognizers
+ * often mishear short phrases ("hey shef", "hay chef"), so matching is fuzzy:
+ * runs of words are compared to the phrase by edit distance.
+ */
+export class WakePhraseDetector {
+  private readonly phraseWords: string[];
+  private readonly minSimilarity: number;
+
+  /**
+   * @param phrase The wake phrase, e.g. 'Hey Chef'.
+   * @param sensitivity From 0 (exact match only) to 1 (loosest match).
+   */
+  constructor(
+    readonly phrase: string,
+    sensitivity: number,
+  ) {
+    this.phraseWords = _toWords(phrase).filter(Boolean);
+    if (this.phraseWords.length === 0) {
+      throw new Error('Wake phrase must contain at least one word.');
+    }
+    const clampedSensitivity = Math.min(Math.max(sensitivity, 0), 1);
+    this.minSimilarity = 1 - MAX_EDIT_RATIO * clampedSensitivity;
+  }
+
+  /**
+   * Looks for the wake phrase anywhere in the transcript.
+   * @param transcript Recognized speech.
+   * @returns Whether it matched, and the words that followed the phrase.
+   */
+  match(transcript: string): WakePhraseMatch {
+    const words = _toWords(transcript);
+    const originalWords = transcript.trim().split(/\s+/);
+    const phrase = this.phraseWords.join(' ');
+
+    // The recognizer may split or join words ("hey chef" vs "heychef"), so
+    // also try windows one word shorter and longer than the phrase.
+    const windowSizes = [
+      this.phraseWords.length,
+      this.phraseWords.length - 1,
+      this.phraseWords.length + 1,
+    ].filter((size) => size > 0);
+
+    let best: {similarity: number; end: number} | null = null;
+    for (let start = 0; start < words.length; start++) {
+      for (const size of windowSizes) {
+        if (start + size > words.length) continue;
+        const candidate = words
+          .slice(start, start + size)
+          .filter(Boolean)
+          .join(' ');
+        const similarity = _similarity(candidate, phrase);
+        if (
+          similarity >= this.minSimilarity &&
+          (!best || similarity > best.similarity)
+        ) {
+          best = {similarity, end: start + size};
+        }
+      }
+    }
+
+    if (!best) {
+      return {matched: false, remainder: ''};
+    }
+    // _toWords keeps one entry per whitespace-separated word, so the indices
+    // match the original words
+    const remainder = originalWords
+      .slice(best.end)
+      .join(' ')
+      .replace(/^[\s,.!?;:]+/, '');
+    return {matched: true, remainder};
+  }
+}
+
+/**
+ * Lowercases and strips punctuation, keeping one (possibly empty) entry per
+ * whitespace-separated word.
+ */
+function _toWords(text: string): string[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, ''));
+}
+
+/**
+ * Similarity of two strings from 0 to 1, based on Levenshtein distance.
+ */
+function _similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - _editDistance(a, b) / longest;
+}
+
+function _editDistance(a: string, b: string): number {
+  let previous = Array.from({length: b.length + 1}, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
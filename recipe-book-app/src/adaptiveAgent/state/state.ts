@@ -15,6 +15,13 @@
 import EventEmitter from 'eventemitter3';
 import { GeminiClient } from '../gemini/geminiClient'; // Adjust the import path as necessary
 
+/**
+ * How the microphone is opened: held down per utterance, left open and split
+ * into utterances by pauses, or left open but only acting on speech after a
+ * wake phrase.
+ */
+export type ListeningMode = 'pushToTalk' | 'continuous' | 'wakePhrase';
+
 /**
  * Defines the structure for the application's shared state.
  * (Interface definition remains the same)
@@ -25,9 +32,19 @@ export interface State {
   isMicOpen: boolean;
   isAgentSpeaking: boolean;
   isAgentThinking: boolean;
+  /** False if the browser lacks speech recognition; typed input still works. */
+  isVoiceInputAvailable: boolean;
+  /** False if speech output is turned off or the browser lacks synthesis. */
+  isSpeechOutputEnabled: boolean;
+  listeningMode: ListeningMode;
+  /** In 'wakePhrase' mode, true from the wake phrase until the idle timeout. */
+  isAwake: boolean;
+  /** Mirrors navigator.onLine; model calls fail fast while offline. */
+  isOnline: boolean;
   geminiClient: GeminiClient | null;
   agentButtonElement: HTMLButtonElement | null;
   micButtonElement: HTMLButtonElement | null;
+  textInputElement: HTMLInputElement | null;
   lastError: string | null;
 }
 
@@ -41,9 +58,15 @@ const _defaultState: State = Object.freeze({
   isMicOpen: false,
   isAgentSpeaking: false,
   isAgentThinking: false,
+  isVoiceInputAvailable: false,
+  isSpeechOutputEnabled: false,
+  listeningMode: 'pushToTalk',
+  isAwake: false,
+  isOnline: true,
   geminiClient: null,
   agentButtonElement: null,
   micButtonElement: null,
+  textInputElement: null,
   lastError: null,
 });
 
@@ -52,14 +52,22 @@ export function setDarkMode(isDark) {
 export function setFontSizeFactor(factor) {
     if (factor > 0 && factor <= 2) {
         const newSize = Math.round(currentFontSize * factor);
-        setFontSize(newSize);
-        document.documentElement.style.setProperty('--base-font-size', `${newSize}px`);
+        setBaseFontSize(newSize);
         console.log(`Font size set to ${newSize}px based on factor ${factor}`);
     } else {
         console.error("Font size factor must be between 0 and 2.");
     }
 }
 
+/**
+ * Sets the base font size, e.g. to go back to an earlier size exactly.
+ * @param {number} size The font size in pixels.
+ */
+export function setBaseFontSize(size) {
+    setFontSize(size);
+    document.documentElement.style.setProperty('--base-font-size', `${size}px`);
+}
+
 /**
  * Retrieves a single recipe by its ID.
  * @param {number} recipeId The ID of the recipe to retrieve.
@@ -59,31 +59,47 @@ document.addEventListener('DOMContentLoaded', init);
 // This snippet initializes the agent after the main application UI is ready.
 import { initializeAgent } from './adaptiveAgent/agent';
 
+// The recommended setup is the agent relay (server/relay.js), which keeps the
+// API key on the server. Set VITE_AGENT_RELAY_URL (see .env.example) and run
+// `npm run relay` alongside the app.
+const AGENT_RELAY_URL = import.meta.env.VITE_AGENT_RELAY_URL;
+
 // --- !! IMPORTANT !! ---
-// An API key is included here for demonstration purposes.
-// For production, you must use a secure method to store and access your API key,
-// such as environment variables or a secure backend service.
-// Do not commit this key to a public repository.
+// Alternatively, an API key can be used directly from the browser for local
+// experiments. Never do this in production or commit the key.
 const GEMINI_API_KEY = 'YOUR_API_KEY_HERE';
 
 const agentTargetSelector = '#agent-container';
 
-if (GEMINI_API_KEY && GEMINI_API_KEY !== 'YOUR_API_KEY_HERE') {
-  if (document.querySelector(agentTargetSelector)) {
-    initializeAgent({
-      targetElementSelector: agentTargetSelector,
-      apiKey: GEMINI_API_KEY,
-      language: 'en-US',
-      modelName: 'gemini-2.5-flash',
-      shortcuts: {
-        toggleAgent: {key: 'Enter'},
-        toggleMic: {key: 'A'},
-      },
-    });
-  } else {
-    console.error(`Adaptive Agent: Target element "${agentTargetSelector}" not found. Agent not initialized.`);
+const hasApiKey = GEMINI_API_KEY && GEMINI_API_KEY !== 'YOUR_API_KEY_HERE';
+
+/**
+ * Picks the agent backend: the relay if configured, else the API key, else
+ * the offline scripted provider so the agent can still be developed and demoed.
+ */
+function getAgentProviderOptions() {
+  if (AGENT_RELAY_URL) {
+    return { provider: 'relay', relayUrl: AGENT_RELAY_URL };
+  }
+  if (hasApiKey) {
+    return { provider: 'gemini', apiKey: GEMINI_API_KEY };
   }
+  console.warn("No relay URL or Gemini API Key configured. Adaptive Agent will use the offline mock provider. Set VITE_AGENT_RELAY_URL or replace 'YOUR_API_KEY_HERE' in main.js.");
+  return { provider: 'mock' };
+}
+
+if (document.querySelector(agentTargetSelector)) {
+  initializeAgent({
+    targetElementSelector: agentTargetSelector,
+    ...getAgentProviderOptions(),
+    language: 'en-US',
+    modelName: 'gemini-2.5-flash',
+    shortcuts: {
+      toggleAgent: {key: 'Enter'},
+      toggleMic: {key: 'A'},
+    },
+  });
 } else {
-  console.warn("Gemini API Key is missing or is a placeholder. Adaptive Agent not initialized. Please replace 'YOUR_API_KEY_HERE' in main.js.");
+  console.error(`Adaptive Agent: Target element "${agentTargetSelector}" not found. Agent not initialized.`);
 }
 // ----- End Integration for Adaptive Agent -----
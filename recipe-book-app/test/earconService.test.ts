@@ -0,0 +1,195 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {EarconService} from '../src/adaptiveAgent/services/earconService';
+import {
+  FakeAudioContext,
+  installFakeAudioContext,
+} from './fakes/fakeAudioContext';
+
+let service: EarconService;
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  installFakeAudioContext();
+  service = new EarconService();
+});
+
+afterEach(async () => {
+  service.destroy();
+  await flush(); // The context closes asynchronously
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+/** Lets pending promises settle, e.g. the context being resumed. */
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve));
+}
+
+/** Records whether a promise has settled yet. */
+function track(promise: Promise<void>) {
+  const state = {settled: false};
+  promise.then(() => (state.settled = true));
+  return state;
+}
+
+function context(): FakeAudioContext {
+  return FakeAudioContext.instances[0];
+}
+
+describe('EarconService', () => {
+  it('plays a tone with an envelope and resolves when it ends', async () => {
+    const playing = track(service.playEnableEarcon());
+    await flush();
+
+    const [oscillator] = context().oscillators;
+    const [gain] = context().gains;
+    expect(oscillator.type).toBe('sine');
+    expect(oscillator.startFrequency).toBe(783.99);
+    expect(oscillator.startTime).toBe(0);
+    expect(oscillator.stopTime).toBe(0.15);
+    expect(oscillator.connections).toEqual([gain]);
+    expect(gain.connections).toEqual([context().destination]);
+    expect(gain.gain.events[0]).toEqual({
+      method: 'setValueAtTime',
+      value: 0,
+      time: 0,
+    });
+    expect(gain.gain.events).toContainEqual({
+      method: 'linearRampToValueAtTime',
+      value: 0.15,
+      time: 0.01,
+    });
+    expect(service.isPlaying()).toBe(true);
+
+    context().advanceTime(0.1);
+    await flush();
+    expect(playing.settled).toBe(false);
+    context().advanceTime(0.05);
+    await flush();
+
+    expect(playing.settled).toBe(true);
+    expect(service.isPlaying()).toBe(false);
+  });
+
+  it('resolves a sequence when its last tone ends', async () => {
+    const playing = track(service.playReadyEarcon());
+    await flush();
+
+    const oscillators = context().oscillators;
+    expect(oscillators.map((oscillator) => oscillator.startFrequency)).toEqual([
+      523.25, 783.99, 1046.5,
+    ]);
+    expect(oscillators.map((oscillator) => oscillator.startTime)).toEqual([
+      0, 0.09, 0.18,
+    ]);
+
+    context().advanceTime(0.2);
+    await flush();
+    expect(playing.settled).toBe(false);
+    expect(service.isPlaying()).toBe(true);
+    context().advanceTime(0.1);
+    await flush();
+
+    expect(playing.settled).toBe(true);
+    expect(service.isPlaying()).toBe(false);
+  });
+
+  it('stops the previous earcon when another one starts', async () => {
+    service.playMicOnEarcon();
+    await flush();
+    const previous = context().oscillators.slice();
+
+    const playing = track(service.playErrorEarcon());
+    await flush();
+    context().advanceTime(0);
+
+    expect(previous.every((oscillator) => oscillator.hasEnded)).toBe(true);
+    expect(context().playing.map((osc) => osc.startFrequency)).toEqual([
+      440, 415.3,
+    ]);
+    context().advanceTime(0.4);
+    await flush();
+    expect(playing.settled).toBe(true);
+  });
+
+  it('uses one context and resumes it if suspended', async () => {
+    installFakeAudioContext('suspended');
+
+    service.playWakeEarcon();
+    await flush();
+    service.playDisableEarcon();
+    await flush();
+
+    expect(FakeAudioContext.instances).toHaveLength(1);
+    expect(context().state).toBe('running');
+    expect(context().oscillators).toHaveLength(3);
+  });
+
+  it('resolves without playing when Web Audio is missing', async () => {
+    vi.stubGlobal('AudioContext', undefined);
+
+    await expect(service.playEnableEarcon()).resolves.toBeUndefined();
+    expect(service.isPlaying()).toBe(false);
+  });
+
+  it('closes the context when destroyed', async () => {
+    service.playEnableEarcon();
+    await flush();
+
+    service.destroy();
+    await flush();
+
+    expect(context().state).toBe('closed');
+    context().advanceTime(0);
+    expect(context().playing).toEqual([]);
+  });
+
+  describe('thinking loop', () => {
+    it('loops until stopped', async () => {
+      await service.startThinkingLoop();
+      await service.startThinkingLoop();
+
+      const [oscillator] = context().oscillators;
+      expect(context().oscillators).toHaveLength(1);
+      expect(oscillator.loop).toBe(true);
+      expect(oscillator.startFrequency).toBe(100);
+      expect(oscillator.stopTime).toBeNull();
+      expect(service.isPlaying()).toBe(true);
+
+      service.stopThinkingLoop();
+      context().advanceTime(0);
+
+      expect(oscillator.hasEnded).toBe(true);
+      expect(service.isPlaying()).toBe(false);
+    });
+
+    it('is stopped by an earcon', async () => {
+      await service.startThinkingLoop();
+      const [loop] = context().oscillators;
+
+      const playing = track(service.playReadyEarcon());
+      await flush();
+      context().advanceTime(0.3);
+      await flush();
+
+      expect(loop.hasEnded).toBe(true);
+      expect(playing.settled).toBe(true);
+      expect(service.isPlaying()).toBe(false);
+    });
+  });
+});
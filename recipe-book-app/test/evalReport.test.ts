@@ -0,0 +1,140 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {describe, expect, it} from 'vitest';
+import {buildDataset, EvalCase} from '../eval/dataset';
+import {runEval} from '../eval/evalRunner';
+import {diffReports, formatSummary} from '../eval/report';
+import {MockProvider} from '../src/adaptiveAgent/gemini/mockProvider';
+
+const provider = () =>
+  new MockProvider({
+    rules: [
+      {
+        match: 'dark',
+        reply: {
+          functionCalls: [{name: 'set_dark_mode', args: {enabled: true}}],
+        },
+      },
+      {
+        match: 'open',
+        reply: {functionCalls: [{name: 'view_recipe', args: {recipe_id: 2}}]},
+      },
+    ],
+  });
+
+const cases: EvalCase[] = [
+  {
+    utterance: 'Dark mode please',
+    expected: [{name: 'set_dark_mode', args: {enabled: true}}],
+    source: 'paraphrase',
+  },
+  {
+    utterance: 'Open the pancakes',
+    expected: [{name: 'view_recipe', args: {recipe_id: 1}}],
+    source: 'paraphrase',
+  },
+  {
+    utterance: 'Open the dark chocolate cookies',
+    expected: [{name: 'view_recipe'}],
+    source: 'paraphrase',
+  },
+  {utterance: 'Hello', expected: [], source: 'paraphrase'},
+];
+
+const promptOptions = {systemInstruction: '', functionDeclarations: []};
+
+describe('buildDataset', () => {
+  it('seeds cases from the example queries, replaced by extra cases', () => {
+    const dataset = buildDataset(
+      [
+        {
+          description: 'Dark mode',
+          exampleQueries: ['Dark mode please', 'Too bright'],
+          functionCallSequence: ['set_dark_mode'],
+        },
+      ],
+      [cases[0]],
+    );
+
+    expect(dataset).toEqual([
+      {
+        utterance: 'Too bright',
+        expected: [{name: 'set_dark_mode'}],
+        source: 'example',
+      },
+      cases[0],
+    ]);
+  });
+});
+
+describe('runEval', () => {
+  it('scores tool selection and arguments per task', async () => {
+    const report = await runEval(cases, provider, promptOptions);
+
+    expect(report.results.map((result) => result.passed)).toEqual([
+      true,
+      false,
+      false,
+      true,
+    ]);
+    expect(report.tasks['set_dark_mode']).toEqual({
+      cases: 1,
+      precision: 0.5,
+      recall: 1,
+      argAccuracy: 1,
+    });
+    expect(report.tasks['view_recipe']).toEqual({
+      cases: 2,
+      precision: 1,
+      recall: 0.5,
+      argAccuracy: 0,
+    });
+    expect(report.summary).toMatchObject({cases: 4, passed: 2, accuracy: 0.5});
+  });
+});
+
+describe('diffReports', () => {
+  it('lists the cases that changed since the baseline', async () => {
+    const baseline = await runEval(cases, provider, promptOptions);
+    const current = await runEval(
+      [...cases.slice(0, 3), {...cases[3], utterance: 'Hi there'}],
+      () =>
+        new MockProvider({
+          rules: [
+            {
+              match: 'open',
+              reply: {functionCalls: [{name: 'view_recipe', args: {}}]},
+            },
+          ],
+        }),
+      promptOptions,
+    );
+
+    const diff = diffReports(baseline, current);
+
+    expect(diff.regressions).toEqual(['Dark mode please']);
+    expect(diff.fixes).toEqual(['Open the dark chocolate cookies']);
+    expect(diff.added).toEqual(['Hi there']);
+    expect(diff.removed).toEqual(['Hello']);
+    expect(diff.tasks.map((change) => change.task)).toEqual([
+      '(no tool)',
+      'set_dark_mode',
+      'view_recipe',
+    ]);
+    expect(formatSummary(current, diff)).toContain(
+      'Newly failing: "Dark mode please"',
+    );
+  });
+});
@@ -0,0 +1,182 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {vi} from 'vitest';
+
+/**
+ * A call scheduling a change of an AudioParam.
+ */
+export interface ParamEvent {
+  method: 'setValueAtTime' | 'linearRampToValueAtTime';
+  value: number;
+  time: number;
+}
+
+export class FakeAudioParam {
+  readonly events: ParamEvent[] = [];
+
+  constructor(public value: number) {}
+
+  setValueAtTime(value: number, time: number): this {
+    this.events.push({method: 'setValueAtTime', value, time});
+    return this;
+  }
+
+  linearRampToValueAtTime(value: number, time: number): this {
+    this.events.push({method: 'linearRampToValueAtTime', value, time});
+    return this;
+  }
+}
+
+export class FakeAudioNode {
+  readonly connections: FakeAudioNode[] = [];
+
+  connect(destination: FakeAudioNode): FakeAudioNode {
+    this.connections.push(destination);
+    return destination;
+  }
+
+  disconnect(): void {
+    this.connections.length = 0;
+  }
+}
+
+export class FakeGainNode extends FakeAudioNode {
+  readonly gain = new FakeAudioParam(1);
+}
+
+/**
+ * An oscillator that records when it was scheduled to play. It ends, and
+ * fires onended, once the context's clock passes its stop time.
+ */
+export class FakeOscillatorNode extends FakeAudioNode {
+  type = 'sine';
+  loop = false;
+  readonly frequency = new FakeAudioParam(440);
+  onended: (() => void) | null = null;
+
+  startTime: number | null = null;
+  stopTime: number | null = null;
+  hasEnded = false;
+
+  constructor(private readonly context: FakeAudioContext) {
+    super();
+  }
+
+  start(when = 0): void {
+    if (this.startTime !== null) {
+      throw new DOMException('Already started.', 'InvalidStateError');
+    }
+    this.startTime = Math.max(when, this.context.currentTime);
+  }
+
+  stop(when = 0): void {
+    if (this.startTime === null) {
+      throw new DOMException('Not started.', 'InvalidStateError');
+    }
+    this.stopTime = Math.max(when, this.context.currentTime);
+  }
+
+  /** The frequency it was first set to. */
+  get startFrequency(): number {
+    return this.frequency.events[0]?.value ?? this.frequency.value;
+  }
+}
+
+/**
+ * An AudioContext that plays nothing but records the nodes created on it.
+ * Its clock stands still until advanceTime() is called, so tests decide
+ * when sounds end; even a sound stopped right away ends at the next call.
+ */
+export class FakeAudioContext {
+  /** Every instance created since installFakeAudioContext(). */
+  static instances: FakeAudioContext[] = [];
+  /** The state new contexts start in, e.g. 'suspended' without a user gesture. */
+  static initialState: AudioContextState = 'running';
+
+  state: AudioContextState = FakeAudioContext.initialState;
+  currentTime = 0;
+  readonly destination = new FakeAudioNode();
+  /** Every oscillator created, in order. */
+  readonly oscillators: FakeOscillatorNode[] = [];
+  readonly gains: FakeGainNode[] = [];
+
+  constructor() {
+    FakeAudioContext.instances.push(this);
+  }
+
+  createOscillator(): FakeOscillatorNode {
+    const oscillator = new FakeOscillatorNode(this);
+    this.oscillators.push(oscillator);
+    return oscillator;
+  }
+
+  createGain(): FakeGainNode {
+    const gain = new FakeGainNode();
+    this.gains.push(gain);
+    return gain;
+  }
+
+  resume(): Promise<void> {
+    if (this.state === 'closed') {
+      return Promise.reject(new DOMException('Closed.', 'InvalidStateError'));
+    }
+    this.state = 'running';
+    return Promise.resolve();
+  }
+
+  close(): Promise<void> {
+    this.state = 'closed';
+    return Promise.resolve();
+  }
+
+  /** Oscillators started and not ended. */
+  get playing(): FakeOscillatorNode[] {
+    return this.oscillators.filter(
+      (oscillator) => oscillator.startTime !== null && !oscillator.hasEnded,
+    );
+  }
+
+  /**
+   * Moves the clock forward and ends the oscillators whose stop time has
+   * passed, in the order of their stop times.
+   */
+  advanceTime(seconds: number): void {
+    this.currentTime += seconds;
+    const ending = this.oscillators
+      .filter(
+        (oscillator) =>
+          !oscillator.hasEnded &&
+          oscillator.stopTime !== null &&
+          oscillator.stopTime <= this.currentTime,
+      )
+      .sort((a, b) => a.stopTime! - b.stopTime!);
+    for (const oscillator of ending) {
+      oscillator.hasEnded = true;
+      oscillator.onended?.();
+    }
+  }
+}
+
+/**
+ * Replaces the browser's AudioContext with FakeAudioContext until
+ * vi.unstubAllGlobals().
+ */
+export function installFakeAudioContext(
+  initialState: AudioContextState = 'running',
+): void {
+  FakeAudioContext.instances = [];
+  FakeAudioContext.initialState = initialState;
+  vi.stubGlobal('AudioContext', FakeAudioContext);
+}
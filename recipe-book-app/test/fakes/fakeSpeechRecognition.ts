@@ -0,0 +1,142 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {vi} from 'vitest';
+
+/**
+ * The error event of the Web Speech API, which jsdom doesn't implement.
+ */
+export class FakeSpeechRecognitionErrorEvent extends Event {
+  readonly error: string;
+  readonly message: string;
+
+  constructor(type: string, init: {error: string; message?: string}) {
+    super(type);
+    this.error = init.error;
+    this.message = init.message ?? '';
+  }
+}
+
+interface FakeResult {
+  transcript: string;
+  isFinal: boolean;
+}
+
+/**
+ * A SpeechRecognition that hears nothing by itself: tests drive it with
+ * emitStart(), emitResult(), emitError() and emitEnd(), in whatever order
+ * the case needs, and check what the service called in `calls`.
+ *
+ * Like the browser's, start() throws while a session is running.
+ */
+export class FakeSpeechRecognition {
+  /** Every instance created since installFakeSpeechRecognition(). */
+  static instances: FakeSpeechRecognition[] = [];
+
+  continuous = false;
+  interimResults = false;
+  lang = '';
+  onstart: ((event: Event) => void) | null = null;
+  onresult: ((event: unknown) => void) | null = null;
+  onerror: ((event: FakeSpeechRecognitionErrorEvent) => void) | null = null;
+  onend: ((event: Event) => void) | null = null;
+
+  /** The methods the service called, in order. */
+  readonly calls: Array<'start' | 'stop' | 'abort'> = [];
+  /** Whether start() was called and the session hasn't ended. */
+  isRunning = false;
+  /** Makes the next start() throw this, e.g. a permission error. */
+  failNextStart: Error | null = null;
+
+  private results: FakeResult[] = [];
+
+  constructor() {
+    FakeSpeechRecognition.instances.push(this);
+  }
+
+  start(): void {
+    this.calls.push('start');
+    if (this.failNextStart) {
+      const error = this.failNextStart;
+      this.failNextStart = null;
+      throw error;
+    }
+    if (this.isRunning) {
+      throw new DOMException(
+        'Recognition has already started.',
+        'InvalidStateError',
+      );
+    }
+    this.isRunning = true;
+    this.results = [];
+  }
+
+  stop(): void {
+    this.calls.push('stop');
+  }
+
+  abort(): void {
+    this.calls.push('abort');
+  }
+
+  /** The audio capture started. */
+  emitStart(): void {
+    this.onstart?.(new Event('start'));
+  }
+
+  /**
+   * Hears some speech. An interim result replaces the previous interim one,
+   * as in the browser; a final one is kept.
+   */
+  emitResult(transcript: string, isFinal = true): void {
+    const last = this.results[this.results.length - 1];
+    if (!last || last.isFinal) {
+      this.results.push({transcript, isFinal});
+    } else {
+      last.transcript = transcript;
+      last.isFinal = isFinal;
+    }
+    this.onresult?.({
+      resultIndex: this.results.length - 1,
+      results: this.results.map((result) =>
+        Object.assign([{transcript: result.transcript, confidence: 0.9}], {
+          isFinal: result.isFinal,
+        }),
+      ),
+    });
+  }
+
+  /** Fails with an error code such as 'no-speech', 'network' or 'aborted'. */
+  emitError(error: string, message = ''): void {
+    this.onerror?.(
+      new FakeSpeechRecognitionErrorEvent('error', {error, message}),
+    );
+  }
+
+  /** The session ended. */
+  emitEnd(): void {
+    this.isRunning = false;
+    this.onend?.(new Event('end'));
+  }
+}
+
+/**
+ * Replaces the browser's SpeechRecognition with FakeSpeechRecognition until
+ * vi.unstubAllGlobals().
+ */
+export function installFakeSpeechRecognition(): void {
+  FakeSpeechRecognition.instances = [];
+  vi.stubGlobal('SpeechRecognition', FakeSpeechRecognition);
+  vi.stubGlobal('SpeechRecognitionErrorEvent', FakeSpeechRecognitionErrorEvent);
+}
@@ -0,0 +1,165 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {vi} from 'vitest';
+
+/**
+ * The voice attributes the service reads.
+ */
+export interface FakeVoice {
+  name: string;
+  lang: string;
+  default?: boolean;
+}
+
+export const FAKE_VOICES: FakeVoice[] = [
+  {name: 'Google US English', lang: 'en-US'},
+  {name: 'Google UK English Female', lang: 'en-GB'},
+];
+
+/**
+ * The utterance of the Web Speech API, which jsdom doesn't implement.
+ */
+export class FakeSpeechSynthesisUtterance {
+  voice: FakeVoice | null = null;
+  lang = '';
+  pitch = 1;
+  rate = 1;
+  volume = 1;
+  onstart: ((event: unknown) => void) | null = null;
+  onend: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onboundary: ((event: unknown) => void) | null = null;
+
+  constructor(public text = '') {}
+}
+
+/**
+ * A speechSynthesis that never plays anything: speak() only queues the
+ * utterance, and tests play the queue with emitStart(), emitBoundary(),
+ * emitEnd() and emitError(), which act on the utterance at its head.
+ *
+ * Like Chrome, cancel() fails the queued utterances with 'interrupted' in a
+ * later task.
+ */
+export class FakeSpeechSynthesis {
+  onvoiceschanged: ((event: Event) => void) | null = null;
+  paused = false;
+
+  /** The text of every utterance passed to speak(), in order. */
+  readonly spoken: string[] = [];
+  /** How often cancel() was called. */
+  cancelCount = 0;
+
+  private queue: FakeSpeechSynthesisUtterance[] = [];
+
+  constructor(private voices: FakeVoice[] = []) {}
+
+  get speaking(): boolean {
+    return this.queue.length > 0;
+  }
+
+  get pending(): boolean {
+    return this.queue.length > 1;
+  }
+
+  /** The utterance being spoken, if any. */
+  get current(): FakeSpeechSynthesisUtterance | null {
+    return this.queue[0] ?? null;
+  }
+
+  getVoices(): FakeVoice[] {
+    return this.voices;
+  }
+
+  speak(utterance: FakeSpeechSynthesisUtterance): void {
+    this.spoken.push(utterance.text);
+    this.queue.push(utterance);
+  }
+
+  cancel(): void {
+    this.cancelCount++;
+    const cancelled = this.queue;
+    this.queue = [];
+    setTimeout(() => {
+      for (const utterance of cancelled) {
+        utterance.onerror?.({type: 'error', utterance, error: 'interrupted'});
+      }
+    });
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  /** Replaces the voices, as when the browser finishes loading them. */
+  setVoices(voices: FakeVoice[]): void {
+    this.voices = voices;
+    this.onvoiceschanged?.(new Event('voiceschanged'));
+  }
+
+  emitStart(): void {
+    const utterance = this.requireCurrent();
+    utterance.onstart?.({type: 'start', utterance, charIndex: 0});
+  }
+
+  /** Reaches a word or sentence boundary at `charIndex` of the text. */
+  emitBoundary(charIndex: number, name: 'word' | 'sentence' = 'word'): void {
+    const utterance = this.requireCurrent();
+    utterance.onboundary?.({type: 'boundary', utterance, charIndex, name});
+  }
+
+  /** Finishes the current utterance; the next one, if any, becomes current. */
+  emitEnd(): void {
+    const utterance = this.requireCurrent();
+    this.queue.shift();
+    utterance.onend?.({
+      type: 'end',
+      utterance,
+      charIndex: utterance.text.length,
+    });
+  }
+
+  /** Fails the current utterance with an error code such as 'synthesis-failed'. */
+  emitError(error: string): void {
+    const utterance = this.requireCurrent();
+    this.queue.shift();
+    utterance.onerror?.({type: 'error', utterance, error});
+  }
+
+  private requireCurrent(): FakeSpeechSynthesisUtterance {
+    if (!this.current) {
+      throw new Error('Nothing is being spoken.');
+    }
+    return this.current;
+  }
+}
+
+/**
+ * Replaces the browser's speechSynthesis with a FakeSpeechSynthesis until
+ * vi.unstubAllGlobals().
+ * @param voices The voices it offers. Pass none to test waiting for voices.
+ */
+export function installFakeSpeechSynthesis(
+  voices: FakeVoice[] = FAKE_VOICES,
+): FakeSpeechSynthesis {
+  const synth = new FakeSpeechSynthesis(voices);
+  vi.stubGlobal('speechSynthesis', synth);
+  vi.stubGlobal('SpeechSynthesisUtterance', FakeSpeechSynthesisUtterance);
+  return synth;
+}
@@ -0,0 +1,108 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  FunctionDeclarationSchemaType as SchemaType,
+  Part,
+} from '@google/generative-ai';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {SystemInstructionsFactory} from '../src/adaptiveAgent/config/systemInstructionsFactory';
+import {
+  defineTool,
+  ToolRegistry,
+} from '../src/adaptiveAgent/config/toolRegistry';
+import {
+  GeminiClient,
+  TurnHandle,
+} from '../src/adaptiveAgent/gemini/geminiClient';
+import {GeminiProvider} from '../src/adaptiveAgent/gemini/geminiProvider';
+
+let modelReplies: Part[][];
+let turn: TurnHandle;
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  modelReplies = [];
+  // The Gemini API, answering each request with the next reply
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async () => {
+      const parts = modelReplies.shift();
+      if (!parts) throw new Error('No reply left.');
+      return new Response(
+        JSON.stringify({
+          candidates: [
+            {content: {role: 'model', parts}, finishReason: 'STOP', index: 0},
+          ],
+        }),
+      );
+    }),
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+function createClient(): GeminiClient {
+  const tools = new ToolRegistry([
+    defineTool({
+      name: 'search_recipes',
+      description: 'Searches the recipes.',
+      parameters: {
+        type: SchemaType.OBJECT,
+        properties: {query: {type: SchemaType.STRING}},
+        required: ['query'],
+      },
+      // The user barges in while the tool runs
+      handler: () => {
+        turn.cancel();
+        return 'Found 2 recipes.';
+      },
+    }),
+  ]);
+  return new GeminiClient({
+    systemInstructionsFactory: new SystemInstructionsFactory({goal: 'Help.'}),
+    toolsConfig: tools,
+    createProvider: (options) => new GeminiProvider('key', options),
+    streamResponses: false,
+    requestTimeoutMs: 0,
+  });
+}
+
+describe('GeminiProvider', () => {
+  it('keeps the history of a cancelled turn out of the chat', async () => {
+    const client = createClient();
+    client.initializeChat();
+    modelReplies.push([{text: 'Hello!'}]);
+    await client.sendMessage('Hi').done;
+    const history = structuredClone(await client.getHistory());
+    // Restarts the chat with the committed history at the next turn
+    client.reloadSystemPrompt();
+
+    modelReplies.push([
+      {functionCall: {name: 'search_recipes', args: {query: 'pasta'}}},
+    ]);
+    turn = client.sendMessage('Find pasta');
+    await turn.done;
+
+    expect(await client.getHistory()).toEqual(history);
+    modelReplies.push([{text: 'Sure.'}]);
+    await client.sendMessage('Thanks').done;
+    expect(await client.getHistory()).toHaveLength(4);
+    client.destroy();
+  });
+});
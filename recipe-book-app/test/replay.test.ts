@@ -0,0 +1,83 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/// <reference types="vite/client" />
+import {describe, expect, it} from 'vitest';
+import {ConversationRecording} from '../src/adaptiveAgent/gemini/conversationRecorder';
+import favorites from './fixtures/favorites.json';
+import {replayConversation} from './replayHarness';
+
+const fixtures = import.meta.glob<ConversationRecording>('./fixtures/*.json', {
+  eager: true,
+  import: 'default',
+});
+
+describe('recorded conversations', () => {
+  for (const [path, recording] of Object.entries(fixtures)) {
+    it(`replays ${path}`, async () => {
+      const result = await replayConversation(recording);
+
+      expect(result.errors).toEqual([]);
+      expect(result.mismatches).toEqual([]);
+      expect(result.complete).toBe(true);
+      for (const turn of result.turns) {
+        expect(turn.spoken, turn.user).toBe(turn.expectedSpoken);
+        if (turn.expectedState) {
+          expect(turn.state, turn.user).toEqual(turn.expectedState);
+        }
+      }
+    });
+  }
+});
+
+describe('replayConversation', () => {
+  it('leaves the app in the recorded state', async () => {
+    await replayConversation(favorites);
+
+    expect(
+      document.getElementById('recipe-list-view')!.classList.contains('hidden'),
+    ).toBe(false);
+    expect(document.getElementById('favorites-list')!.textContent).toContain(
+      'Classic Pancakes',
+    );
+    expect(JSON.parse(localStorage.getItem('recipeFavorites')!)).toEqual([1]);
+  });
+
+  it('reports tool results that differ from the recording', async () => {
+    const recording = structuredClone(favorites);
+    recording.turns[1].responses[0].toolResults![0].response = {
+      result: 'Something else.',
+    };
+
+    const result = await replayConversation(recording);
+
+    expect(result.errors).toEqual([]);
+    expect(result.mismatches).toHaveLength(1);
+    expect(result.mismatches[0]).toContain('mark_as_favorite');
+  });
+
+  it('stops when the recording runs out of responses', async () => {
+    const recording = structuredClone(favorites);
+    recording.turns[0].responses.pop();
+
+    const result = await replayConversation(recording);
+
+    expect(result.errors).toEqual([
+      'The recording has no response 2 to "Show me the Classic Pancakes".',
+    ]);
+    expect(result.turns).toHaveLength(1);
+    expect(result.turns[0].spoken).toBeNull();
+    expect(result.complete).toBe(false);
+  });
+});
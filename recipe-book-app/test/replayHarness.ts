@@ -0,0 +1,176 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/// <reference types="vite/client" />
+import {vi} from 'vitest';
+import indexHtml from '../index.html?raw';
+import {ConversationRecording} from '../src/adaptiveAgent/gemini/conversationRecorder';
+import {GeminiClient} from '../src/adaptiveAgent/gemini/geminiClient';
+import {LlmProviderFactory} from '../src/adaptiveAgent/gemini/llmProvider';
+import {TurnContext} from '../src/adaptiveAgent/gemini/turnContext';
+
+/**
+ * A recorded turn as it went in the replay.
+ */
+export interface ReplayedTurn {
+  user: string;
+  /** What the agent said, or null if the turn failed. */
+  spoken: string | null;
+  expectedSpoken: string;
+  /** The app's state after the turn. */
+  state: TurnContext;
+  expectedState?: TurnContext;
+}
+
+export interface ReplayResult {
+  turns: ReplayedTurn[];
+  /** Where the tools' results differed from the recording. */
+  mismatches: string[];
+  /** Errors emitted by the client. The replay stops at the first one. */
+  errors: string[];
+  /** Whether every recorded turn was replayed. */
+  complete: boolean;
+}
+
+const APP_BODY = new DOMParser().parseFromString(indexHtml, 'text/html').body
+  .innerHTML;
+
+/**
+ * Starts the Recipe Book afresh, as main.js does but without the agent:
+ * a new DOM from index.html, empty localStorage, and new instances of all
+ * modules, since the app keeps its state in module variables.
+ */
+export async function loadRecipeBook(): Promise<void> {
+  document.documentElement.className = '';
+  document.documentElement.removeAttribute('style');
+  document.body.innerHTML = APP_BODY;
+  localStorage.clear();
+  vi.resetModules();
+
+  const [{recipes}, render, theme] = await Promise.all([
+    import('../src/data/recipes.js'),
+    import('../src/ui/render.js'),
+    import('../src/ui/theme.js'),
+  ]);
+  theme.initTheme();
+  render.renderRecipeList(recipes);
+  render.renderFavorites();
+}
+
+/**
+ * Runs a recorded conversation against a fresh Recipe Book with the current
+ * tools and system prompt, the model's side played back by a ReplayProvider.
+ */
+export async function replayConversation(
+  recording: ConversationRecording,
+): Promise<ReplayResult> {
+  await loadRecipeBook();
+  const [{ReplayProvider}, agent] = await Promise.all([
+    import('../src/adaptiveAgent/gemini/replayProvider'),
+    _importAgentModules(),
+  ]);
+  const provider = new ReplayProvider(recording);
+  const client = agent.createClient(() => provider);
+  const errors: string[] = [];
+  client.on('error', (error: {message: string; details?: unknown}) => {
+    // The message for the user is generic; the details say what went wrong
+    errors.push(
+      error.details instanceof Error ? error.details.message : error.message,
+    );
+  });
+  client.initializeChat();
+
+  const turns: ReplayedTurn[] = [];
+  for (const turn of recording.turns) {
+    const spoken = await _send(client, turn.user);
+    turns.push({
+      user: turn.user,
+      spoken,
+      expectedSpoken: turn.spoken,
+      state: agent.getRecipeBookState(),
+      expectedState: turn.state,
+    });
+    if (errors.length > 0) break;
+  }
+  client.destroy();
+  return {
+    turns,
+    mismatches: provider.mismatches,
+    errors,
+    complete: provider.isComplete(),
+  };
+}
+
+/**
+ * Records a conversation with a model against a fresh Recipe Book, e.g. to
+ * write a fixture for replayConversation().
+ * @param messages The user's messages, sent one turn at a time.
+ * @param createProvider The model to talk to.
+ */
+export async function recordConversation(
+  messages: string[],
+  createProvider: LlmProviderFactory,
+): Promise<ConversationRecording> {
+  await loadRecipeBook();
+  const [{ConversationRecorder}, agent] = await Promise.all([
+    import('../src/adaptiveAgent/gemini/conversationRecorder'),
+    _importAgentModules(),
+  ]);
+  const recorder = new ConversationRecorder(agent.getRecipeBookState);
+  const client = agent.createClient(recorder.wrap(createProvider));
+  recorder.attach(client);
+  client.initializeChat();
+  for (const message of messages) {
+    await _send(client, message);
+  }
+  client.destroy();
+  return recorder.getRecording();
+}
+
+/**
+ * Imports the agent's modules after loadRecipeBook(), so that they use the
+ * new DOM and app state.
+ */
+async function _importAgentModules() {
+  const [{GeminiClient}, {getGeminiClientConfig}, {getRecipeBookState}] =
+    await Promise.all([
+      import('../src/adaptiveAgent/gemini/geminiClient'),
+      import('../src/adaptiveAgent/config/agentConfig'),
+      import('../src/adaptiveAgent/config/appState'),
+    ]);
+  return {
+    getRecipeBookState,
+    // Streamed like in the agent, so the spoken text is the same
+    createClient: (createProvider: LlmProviderFactory) =>
+      new GeminiClient(
+        getGeminiClientConfig(createProvider, {streamResponses: true}),
+      ),
+  };
+}
+
+/**
+ * Sends a message and waits for the turn to end.
+ * @returns What the agent said, or null if the turn failed.
+ */
+async function _send(
+  client: GeminiClient,
+  message: string,
+): Promise<string | null> {
+  let spoken: string | null = null;
+  client.once('responseComplete', (payload: {text: string | null}) => {
+    spoken = payload.text;
+  });
+  await client.sendMessage(message).done;
+  return spoken;
+}
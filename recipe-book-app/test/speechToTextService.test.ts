@@ -0,0 +1,264 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {SpeechToTextService} from '../src/adaptiveAgent/services/speechToTextService';
+import {
+  FakeSpeechRecognition,
+  installFakeSpeechRecognition,
+} from './fakes/fakeSpeechRecognition';
+
+let service: SpeechToTextService;
+let recognition: FakeSpeechRecognition;
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  installFakeSpeechRecognition();
+  service = new SpeechToTextService();
+  recognition = FakeSpeechRecognition.instances[0];
+});
+
+afterEach(() => {
+  service.destroy();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+/** Starts push-to-talk and lets the recognizer report that it started. */
+function startListening() {
+  service.start();
+  recognition.emitStart();
+}
+
+describe('SpeechToTextService', () => {
+  it('configures the recognizer', () => {
+    expect(service.isSupported()).toBe(true);
+    expect(recognition.continuous).toBe(true);
+    expect(recognition.interimResults).toBe(true);
+    expect(recognition.lang).toBe('en-US');
+  });
+
+  it('is unsupported without the Web Speech API', () => {
+    vi.stubGlobal('SpeechRecognition', undefined);
+
+    const unsupported = new SpeechToTextService();
+
+    expect(unsupported.isSupported()).toBe(false);
+    return expect(unsupported.stop()).rejects.toBe(
+      'SpeechRecognition not supported.',
+    );
+  });
+
+  describe('stop()', () => {
+    it('resolves with the final transcript when recognition ends', async () => {
+      const interim = vi.fn();
+      service.events.on('interimResult', interim);
+      startListening();
+
+      recognition.emitResult('show me', false);
+      recognition.emitResult('show me pancakes');
+      recognition.emitResult('please ', true);
+      const transcript = service.stop();
+      recognition.emitEnd();
+
+      await expect(transcript).resolves.toBe('show me pancakes please');
+      expect(interim.mock.calls).toEqual([['show me'], [''], ['']]);
+      expect(recognition.calls).toEqual(['start', 'stop']);
+      expect(service.getIsListening()).toBe(false);
+    });
+
+    it('keeps results that arrive between stop() and the end', async () => {
+      startListening();
+      recognition.emitResult('next', false);
+
+      const transcript = service.stop();
+      recognition.emitResult('next step');
+      recognition.emitEnd();
+
+      await expect(transcript).resolves.toBe('next step');
+    });
+
+    it('rejects with the error code if recognition fails first', async () => {
+      const errors = vi.fn();
+      service.events.on('error', errors);
+      startListening();
+
+      const transcript = service.stop();
+      recognition.emitError('network');
+      recognition.emitEnd();
+
+      await expect(transcript).rejects.toBe('network');
+      expect(errors).toHaveBeenCalledWith('network');
+      expect(service.getIsListening()).toBe(false);
+    });
+
+    it('resolves right away when not listening', async () => {
+      await expect(service.stop()).resolves.toBe('');
+      expect(recognition.calls).toEqual([]);
+    });
+
+    it('waits for the end when called before recognition started', async () => {
+      service.start();
+
+      const transcript = service.stop();
+      recognition.emitStart();
+      recognition.emitResult('hello');
+      recognition.emitEnd();
+
+      await expect(transcript).resolves.toBe('hello');
+      expect(recognition.calls).toEqual(['start', 'stop']);
+    });
+
+    it('is rejected by abort() while waiting for the end', async () => {
+      startListening();
+      recognition.emitResult('delete everything');
+
+      const transcript = service.stop();
+      service.abort();
+      // The browser reports the abort as an error, then ends
+      recognition.emitError('aborted');
+      recognition.emitEnd();
+
+      await expect(transcript).rejects.toBe('Recognition aborted by user.');
+      expect(recognition.calls).toEqual(['start', 'stop', 'abort']);
+      expect(service.getIsListening()).toBe(false);
+    });
+
+    it('is rejected when the service is destroyed', async () => {
+      startListening();
+
+      const transcript = service.stop();
+      service.destroy();
+
+      await expect(transcript).rejects.toBe('Service destroyed');
+      expect(recognition.onend).toBeNull();
+    });
+  });
+
+  describe('start()', () => {
+    it('is ignored while a stop is pending', async () => {
+      startListening();
+      recognition.emitResult('first');
+      const transcript = service.stop();
+
+      service.start();
+      recognition.emitEnd();
+
+      await expect(transcript).resolves.toBe('first');
+      expect(recognition.calls).toEqual(['start', 'stop']);
+    });
+
+    it('is ignored while recognition is starting', () => {
+      service.start();
+      service.start();
+
+      expect(recognition.calls).toEqual(['start']);
+    });
+
+    it('starts a new transcript after the previous stop', async () => {
+      startListening();
+      recognition.emitResult('first');
+      const first = service.stop();
+      recognition.emitEnd();
+      await first;
+
+      startListening();
+      recognition.emitResult('second');
+      const second = service.stop();
+      recognition.emitEnd();
+
+      await expect(second).resolves.toBe('second');
+    });
+
+    it('can be aborted before recognition started', async () => {
+      service.start();
+
+      service.abort();
+      recognition.emitError('aborted');
+      recognition.emitEnd();
+
+      expect(recognition.calls).toEqual(['start', 'abort']);
+      await expect(service.stop()).resolves.toBe('');
+    });
+
+    it('reports a recognizer that fails to start', async () => {
+      const errors = vi.fn();
+      service.events.on('error', errors);
+      recognition.failNextStart = new DOMException(
+        'Permission denied',
+        'NotAllowedError',
+      );
+
+      service.start();
+
+      expect(errors).toHaveBeenCalledWith('start-failed');
+      expect(service.getIsListening()).toBe(false);
+      await expect(service.stop()).resolves.toBe('');
+    });
+  });
+
+  describe('continuous mode', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    it('emits an utterance after silence and restarts recognition', async () => {
+      const utterances = vi.fn();
+      service.events.on('utterance', utterances);
+      await service.startContinuous({silenceMs: 500});
+      recognition.emitStart();
+
+      recognition.emitResult('next step');
+      vi.advanceTimersByTime(400);
+      expect(utterances).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(200);
+
+      expect(utterances).toHaveBeenCalledWith('next step');
+      expect(recognition.calls).toEqual(['start', 'abort']);
+      recognition.emitError('aborted');
+      recognition.emitEnd();
+      vi.advanceTimersByTime(100);
+      expect(recognition.calls).toEqual(['start', 'abort', 'start']);
+    });
+
+    it('stops recognition while muted', async () => {
+      await service.startContinuous();
+      recognition.emitStart();
+
+      service.setMuted(true);
+      recognition.emitEnd();
+      recognition.emitResult('the agent talking');
+      vi.advanceTimersByTime(5000);
+
+      expect(recognition.calls).toEqual(['start', 'abort']);
+      service.setMuted(false);
+      expect(recognition.calls).toEqual(['start', 'abort', 'start']);
+    });
+
+    it('gives up after a fatal error', async () => {
+      await service.startContinuous();
+      recognition.emitStart();
+
+      recognition.emitError('not-allowed');
+      recognition.emitEnd();
+      vi.advanceTimersByTime(1000);
+
+      expect(service.isContinuous()).toBe(false);
+      expect(recognition.calls).toEqual(['start']);
+    });
+  });
+});
@@ -0,0 +1,297 @@
+// Copyright 2025 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {TextToSpeechService} from '../src/adaptiveAgent/services/textToSpeechService';
+import {
+  FakeSpeechSynthesis,
+  installFakeSpeechSynthesis,
+} from './fakes/fakeSpeechSynthesis';
+
+const RECIPE_STEPS =
+  'Preheat the oven to 180 degrees. Mix the flour, sugar and eggs! Bake for twenty minutes';
+
+let synth: FakeSpeechSynthesis;
+let service: TextToSpeechService;
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  synth = installFakeSpeechSynthesis();
+  service = new TextToSpeechService();
+});
+
+afterEach(() => {
+  service.destroy();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+/** Lets pending promises settle and the browser's queued events fire. */
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve));
+}
+
+/** Records whether a promise has settled yet. */
+function track(promise: Promise<void>) {
+  const state = {settled: false};
+  promise.then(() => (state.settled = true));
+  return state;
+}
+
+/** Plays the current utterance from start to end. */
+async function playCurrent() {
+  await flush();
+  synth.emitStart();
+  synth.emitEnd();
+}
+
+describe('TextToSpeechService', () => {
+  it('selects the preferred voice once the voices load', async () => {
+    synth = installFakeSpeechSynthesis([]);
+    service = new TextToSpeechService();
+
+    const speaking = service.speak('Hello.');
+    await flush();
+    expect(synth.spoken).toEqual([]);
+
+    synth.setVoices([
+      {name: 'Google Deutsch', lang: 'de-DE'},
+      {name: 'Google US English', lang: 'en-US'},
+    ]);
+    await playCurrent();
+
+    await expect(speaking).resolves.toBeUndefined();
+    expect(service.getSelectedVoice()!.name).toBe('Google US English');
+    expect(synth.spoken).toEqual(['Hello.']);
+  });
+
+  describe('speak()', () => {
+    it('speaks the text one sentence at a time', async () => {
+      const speaking = service.speak(RECIPE_STEPS);
+
+      await flush();
+      expect(synth.spoken).toEqual(['Preheat the oven to 180 degrees.']);
+      synth.emitStart();
+      expect(service.isSpeaking()).toBe(true);
+      synth.emitEnd();
+      await playCurrent();
+      await playCurrent();
+
+      await expect(speaking).resolves.toBeUndefined();
+      expect(synth.spoken).toEqual([
+        'Preheat the oven to 180 degrees.',
+        ' Mix the flour, sugar and eggs!',
+        ' Bake for twenty minutes',
+      ]);
+      expect(service.isSpeaking()).toBe(false);
+    });
+
+    it('applies the voice settings to every chunk', async () => {
+      service.setRate(1.5);
+      service.setPitch(0.8);
+      service.setVoice('Google US English');
+
+      const speaking = service.speak('One. Two.');
+      await flush();
+      const first = synth.current!;
+      await playCurrent();
+      const second = synth.current!;
+      await playCurrent();
+      await speaking;
+
+      for (const utterance of [first, second]) {
+        expect(utterance).toMatchObject({rate: 1.5, pitch: 0.8, lang: 'en-US'});
+        expect(utterance.voice!.name).toBe('Google US English');
+      }
+    });
+
+    it('emits start and end for each chunk', async () => {
+      const events: string[] = [];
+      service.events.on('start', () => events.push('start'));
+      service.events.on('end', () => events.push('end'));
+
+      const speaking = service.speak('One. Two.');
+      await playCurrent();
+      await playCurrent();
+      await speaking;
+
+      expect(events).toEqual(['start', 'end', 'start', 'end']);
+    });
+
+    it('keeps speaking through word boundaries', async () => {
+      const speaking = service.speak('Whisk the eggs.');
+      await flush();
+
+      synth.emitStart();
+      synth.emitBoundary(0);
+      synth.emitBoundary(6);
+      expect(service.isSpeaking()).toBe(true);
+      synth.emitEnd();
+
+      await expect(speaking).resolves.toBeUndefined();
+    });
+
+    it('rejects with the error code if synthesis fails', async () => {
+      const speaking = service.speak('One. Two.');
+      await flush();
+
+      synth.emitStart();
+      synth.emitError('synthesis-failed');
+
+      await expect(speaking).rejects.toBe('synthesis-failed');
+      expect(synth.spoken).toEqual(['One.']);
+      expect(service.isSpeaking()).toBe(false);
+    });
+
+    it('interrupts the previous text', async () => {
+      const first = service.speak('First sentence. Second sentence.');
+      await flush();
+      synth.emitStart();
+
+      const second = service.speak('Something else.');
+      await expect(first).resolves.toBeUndefined();
+      // The cancelled utterance fails with 'interrupted' in a later task
+      await playCurrent();
+
+      await expect(second).resolves.toBeUndefined();
+      expect(synth.cancelCount).toBe(1);
+      expect(synth.spoken).toEqual(['First sentence.', 'Something else.']);
+    });
+
+    it('ignores late events of the interrupted text', async () => {
+      service.speak('First.');
+      await flush();
+      const first = synth.current!;
+      synth.emitStart();
+      const second = track(service.speak('Second.'));
+      await flush();
+      synth.emitStart();
+
+      // Some browsers end a cancelled utterance instead of failing it
+      first.onend?.({type: 'end', utterance: first, charIndex: 0});
+      await flush();
+
+      expect(service.isSpeaking()).toBe(true);
+      expect(second.settled).toBe(false);
+      synth.emitEnd();
+      await flush();
+      expect(second.settled).toBe(true);
+    });
+  });
+
+  describe('stop()', () => {
+    it('resolves the pending speak() and skips the remaining chunks', async () => {
+      const ends = vi.fn();
+      service.events.on('end', ends);
+      const speaking = service.speak(RECIPE_STEPS);
+      await flush();
+      synth.emitStart();
+
+      service.stop();
+
+      await expect(speaking).resolves.toBeUndefined();
+      await flush();
+      expect(synth.speaking).toBe(false);
+      expect(synth.spoken).toEqual(['Preheat the oven to 180 degrees.']);
+      expect(service.isSpeaking()).toBe(false);
+      expect(ends).toHaveBeenCalledTimes(1);
+    });
+
+    it('is not reported as an error', async () => {
+      const errors = vi.mocked(console.error);
+      const speaking = service.speak('One. Two.');
+      await flush();
+      synth.emitStart();
+
+      service.stop();
+      await flush(); // The cancelled utterance fails with 'interrupted'
+
+      await expect(speaking).resolves.toBeUndefined();
+      expect(errors).not.toHaveBeenCalled();
+    });
+
+    it('does nothing when not speaking', () => {
+      service.stop();
+
+      expect(synth.cancelCount).toBe(0);
+    });
+  });
+
+  describe('enqueue()', () => {
+    it('speaks queued text in order without interrupting', async () => {
+      const first = service.enqueue('First.');
+      const second = service.enqueue('Second. Third.');
+
+      await playCurrent();
+      await first;
+      await playCurrent();
+      await playCurrent();
+
+      await expect(second).resolves.toBeUndefined();
+      expect(synth.spoken).toEqual(['First.', 'Second.', ' Third.']);
+      expect(synth.cancelCount).toBe(0);
+    });
+
+    it('drops queued text on stop()', async () => {
+      const first = service.enqueue('First.');
+      const second = service.enqueue('Second.');
+      await flush();
+      synth.emitStart();
+
+      service.stop();
+
+      await expect(first).resolves.toBeUndefined();
+      await expect(second).resolves.toBeUndefined();
+      expect(synth.spoken).toEqual(['First.']);
+    });
+
+    it('settles a speak() still playing when it starts', async () => {
+      const speaking = track(service.speak('First.'));
+      await flush();
+      synth.emitStart();
+
+      const queued = service.enqueue('Second.');
+      await flush();
+      await playCurrent();
+      await playCurrent();
+
+      await expect(queued).resolves.toBeUndefined();
+      expect(speaking.settled).toBe(true);
+      expect(synth.spoken).toEqual(['First.', 'Second.']);
+    });
+
+    it('treats an interrupted utterance as ended', async () => {
+      const queued = service.enqueue('First.');
+      await flush();
+      synth.emitStart();
+      synth.emitError('interrupted');
+
+      await expect(queued).resolves.toBeUndefined();
+      expect(service.isSpeaking()).toBe(false);
+    });
+
+    it('keeps the queue going after a failed item', async () => {
+      const first = service.enqueue('First.');
+      const second = service.enqueue('Second.');
+      await flush();
+      synth.emitError('audio-busy');
+
+      await expect(first).rejects.toBe('audio-busy');
+      await playCurrent();
+      await expect(second).resolves.toBeUndefined();
+    });
+  });
+});
@@ -12,8 +12,20 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 
 export default defineConfig({
-  // config options
+  server: {
+    proxy: {
+      // Forward agent requests to the relay started with `npm run relay`
+      '/api/agent': 'http://127.0.0.1:8787',
+    },
+  },
+  test: {
+    // Replays recorded agent conversations against the app's DOM; see test/
+    environment: 'jsdom',
+    include: ['test/**/*.test.ts'],
+    setupFiles: ['test/setup.ts'],
+  },
 })